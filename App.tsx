@@ -1,93 +1,310 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import ThreeScene from './components/ThreeScene';
 import UIOverlay from './components/UIOverlay';
+import { DEFAULT_MISSION_TIMELINE, flightTimeAt, timelineForAscent, withRecoveryEpilogue } from './mission/timeline';
+import { simulateAscent } from './mission/ascent';
+import type { RecoveryBurn } from './mission/recovery';
+import type { Tle } from './mission/tle';
+import { createMissionClock } from './mission/clock';
+import { downloadBlob } from './scene/export';
+import type { VideoExportOptions, ExportStatus } from './scene/export';
+import type { CaptureOptions, CaptureResult } from './scene/capture';
+import type { LoadingProgress } from './scene/assets';
+import { ascentVehicle, findVehicle } from './scene/vehicles';
+import type { VehicleSpec } from './scene/vehicles';
+import { planLaunch } from './mission/launchSites';
+import type { LaunchPlan } from './mission/launchSites';
+import { parseQualityMode } from './scene/quality';
+import type { QualityMode, QualityStats } from './scene/quality';
+import { parseSeed } from './utils/random';
+import { createTelemetryRecorder, recordingDuration, recordingToCsv, recordingToJson, sampleRecording } from './mission/telemetry';
+import type { TelemetryRecording } from './mission/telemetry';
+import type { MissionEvent } from './mission/events';
 
 export interface MissionData {
   phase: string;
-  altitude: number;
-  velocity: number;
+  missionTime: number; // s since liftoff, 0 on the pad
+  altitude: number; // km
+  velocity: number; // km/s
+  acceleration: number; // g
+  downrange: number; // km
+  dynamicPressure: number; // kPa
+  maxQ: MaxQ;
+  throttle: number; // 0..1 of the burning core stage
+  propellant: PropellantLevel[]; // Boosters (if any) first, then each core stage
+  site: string; // Launch site name
+  orbit?: OrbitSummary; // Present once the satellite is on orbit
+  recovery?: RecoveryTelemetry; // Present during the booster recovery epilogue
+}
+
+export interface MaxQ {
+  time: number; // s since liftoff
+  dynamicPressure: number; // kPa
+}
+
+export interface PropellantLevel {
+  stage: string;
+  remaining: number; // Fraction of the loaded propellant, 0..1
+}
+
+export interface RecoveryTelemetry {
+  altitude: number; // km
+  verticalSpeed: number; // m/s
+  burn: RecoveryBurn;
+}
+
+export interface OrbitSummary {
+  apoapsis: number; // km
+  periapsis: number; // km
+  period: number; // minutes
+  inclination: number; // deg
 }
 
 export type CameraAngle = 'cinematic' | 'follow' | 'wide';
 
+const MISSION_EVENT_LOG_LIMIT = 100;
+
 function App() {
   const [loading, setLoading] = useState(true);
-  const [scrollPercent, setScrollPercent] = useState(0);
+  const [loadingProgress, setLoadingProgress] = useState<LoadingProgress>({ assets: [], timedOut: false });
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [reducedQuality, setReducedQuality] = useState(false);
+  const [skipLoadRequest, setSkipLoadRequest] = useState(0);
+  const [progressPercent, setProgressPercent] = useState(0);
   const [cameraAngle, setCameraAngle] = useState<CameraAngle>('cinematic');
-  const [autoScroll, setAutoScroll] = useState(false);
+  const missionClock = useMemo(() => createMissionClock(DEFAULT_MISSION_TIMELINE.duration), []);
+  const [clockState, setClockState] = useState(missionClock.getState());
+  const [scrollInput, setScrollInput] = useState(true);
+  const programmaticScrollRef = useRef(-1);
+  const [tle, setTle] = useState<Tle | null>(null);
+  const [epoch, setEpoch] = useState<Date | null>(null); // null = live UTC
+  const [exportRequest, setExportRequest] = useState<VideoExportOptions | null>(null);
+  const [exportStatus, setExportStatus] = useState<ExportStatus>({ state: 'idle', frame: 0, totalFrames: 0 });
+  const [captureRequest, setCaptureRequest] = useState<CaptureOptions | null>(null);
+  const [captureError, setCaptureError] = useState<string | null>(null);
+  const [vehicle, setVehicle] = useState<VehicleSpec>(() => findVehicle(new URLSearchParams(window.location.search).get('vehicle') ?? ''));
+  // Flight profile of the selected vehicle; the epilogue recovers a booster, so it needs one that separates
+  const ascent = useMemo(() => simulateAscent(ascentVehicle(vehicle)), [vehicle]);
+  const recoveryAvailable = ascent.events.boosterSeparation !== null;
+  const [recoveryEpilogue, setRecoveryEpilogue] = useState(false);
+  const timeline = useMemo(() => timelineForAscent(
+    recoveryEpilogue && recoveryAvailable ? withRecoveryEpilogue(DEFAULT_MISSION_TIMELINE) : DEFAULT_MISSION_TIMELINE,
+    ascent.events,
+  ), [ascent, recoveryEpilogue, recoveryAvailable]);
+  const [launchPlan, setLaunchPlan] = useState<LaunchPlan>(() => {
+    const params = new URLSearchParams(window.location.search);
+    return planLaunch(params.get('site') ?? '', Number(params.get('azimuth') ?? NaN));
+  });
+  const [qualityMode, setQualityMode] = useState<QualityMode>(() => parseQualityMode(new URLSearchParams(window.location.search).get('quality')));
+  const [qualityStats, setQualityStats] = useState<QualityStats | null>(null);
+  const [seed] = useState(() => parseSeed(new URLSearchParams(window.location.search).get('seed')));
   const [missionData, setMissionData] = useState<MissionData>({
     phase: 'Orbital Approach',
+    missionTime: 0,
     altitude: 0,
     velocity: 0,
+    acceleration: 0,
+    downrange: 0,
+    dynamicPressure: 0,
+    maxQ: { time: 0, dynamicPressure: 0 },
+    throttle: 0,
+    propellant: [],
+    site: launchPlan.site.name,
   });
 
+  const telemetryRecorder = useMemo(() => createTelemetryRecorder(), []);
+  const [telemetryState, setTelemetryState] = useState(() => telemetryRecorder.getState());
+  const [replay, setReplay] = useState<TelemetryRecording | null>(null);
+
   const handleSceneUpdate = useCallback((percent: number, data: MissionData) => {
-    setScrollPercent(percent);
+    if (replay) return; // The replay drives the HUD instead
+    setProgressPercent(percent);
     setMissionData(data);
+    telemetryRecorder.record(percent, flightTimeAt(timeline, percent / 100), cameraAngle, data);
+  }, [replay, telemetryRecorder, timeline, cameraAngle]);
+
+  // Most recent last; only the tail is kept for the log
+  const [missionEvents, setMissionEvents] = useState<MissionEvent[]>([]);
+  const handleMissionEvent = useCallback((event: MissionEvent) => {
+    setMissionEvents(events => [...events, event].slice(-MISSION_EVENT_LOG_LIMIT));
   }, []);
 
-  const toggleAutoScroll = useCallback(() => {
-    setAutoScroll(prev => !prev);
+  const toggleTelemetryRecording = useCallback(() => {
+    if (telemetryRecorder.getState().recording) {
+      telemetryRecorder.stop();
+    } else {
+      telemetryRecorder.start({ vehicle: vehicle.id, recoveryEpilogue: recoveryEpilogue && recoveryAvailable, duration: timeline.duration });
+    }
+  }, [telemetryRecorder, vehicle, recoveryEpilogue, recoveryAvailable, timeline]);
+
+  const downloadTelemetry = useCallback((format: 'csv' | 'json') => {
+    const recording = telemetryRecorder.toRecording();
+    const blob = format === 'csv'
+      ? new Blob([recordingToCsv(recording)], { type: 'text/csv' })
+      : new Blob([recordingToJson(recording)], { type: 'application/json' });
+    downloadBlob(blob, `launch-telemetry-${Date.now()}.${format}`);
+  }, [telemetryRecorder]);
+
+  // Progress only means something on the timeline it was recorded against, so a replay first restores it
+  const startReplay = useCallback((recording: TelemetryRecording | null) => {
+    if (recording) {
+      setVehicle(findVehicle(recording.timeline.vehicle));
+      setRecoveryEpilogue(recording.timeline.recoveryEpilogue);
+    }
+    setReplay(recording);
   }, []);
 
-  // Auto-scroll effect with smooth easing
+  // A replay plays the recorded samples back in real time: each one seeks the clock, sets the camera and fills the HUD.
+  // Changing the vehicle or the epilogue underneath it ends the replay
   React.useEffect(() => {
-    if (!autoScroll) return;
-    
-    const scrollSpeed = 1.5; // Increased from 0.8 to 1.5 for better pacing
-    let animationId: number;
-    let velocity = 0;
-    const maxVelocity = scrollSpeed;
-    const acceleration = 0.03; // Slightly faster acceleration
-    const deceleration = 0.98; // Smooth deceleration
-    
-    const autoScrollStep = () => {
-      const maxScroll = document.documentElement.scrollHeight - window.innerHeight;
-      const currentScroll = window.scrollY;
-      
-      if (currentScroll < maxScroll) {
-        // Smooth acceleration
-        velocity = Math.min(velocity + acceleration, maxVelocity);
-        
-        // Apply smooth easing
-        const easedVelocity = velocity * deceleration;
-        window.scrollBy(0, easedVelocity);
-        
-        animationId = requestAnimationFrame(autoScrollStep);
-      } else {
-        // Reset to beginning when reaching end
-        setAutoScroll(false);
-        velocity = 0;
-      }
+    if (!replay) return;
+    if (vehicle.id !== replay.timeline.vehicle || timeline.duration !== replay.timeline.duration) {
+      setReplay(null);
+      return;
+    }
+    missionClock.pause();
+    const duration = recordingDuration(replay);
+    const startTime = performance.now();
+    let frameId = 0;
+    const step = (time: number) => {
+      const elapsed = (time - startTime) / 1000;
+      const sample = sampleRecording(replay, elapsed);
+      missionClock.seek(sample.progress / 100);
+      setCameraAngle(sample.cameraAngle);
+      setProgressPercent(sample.progress);
+      setMissionData(sample.data);
+      if (elapsed < duration) frameId = requestAnimationFrame(step);
+      else setReplay(null);
     };
-    
-    animationId = requestAnimationFrame(autoScrollStep);
-    
-    return () => {
-      if (animationId) cancelAnimationFrame(animationId);
-      velocity = 0;
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [replay, missionClock, vehicle, timeline]);
+
+  React.useEffect(() => missionClock.subscribe(setClockState), [missionClock]);
+  React.useEffect(() => telemetryRecorder.subscribe(setTelemetryState), [telemetryRecorder]);
+  React.useEffect(() => missionClock.setDuration(timeline.duration), [missionClock, timeline]);
+
+  const retryLoad = useCallback(() => {
+    setLoadError(null);
+    setLoadingProgress({ assets: [], timedOut: false });
+    setLoading(true);
+    setLoadAttempt(attempt => attempt + 1);
+  }, []);
+
+  const continueWithReducedQuality = useCallback(() => {
+    setReducedQuality(true);
+    setSkipLoadRequest(request => request + 1);
+  }, []);
+
+  const handleExportStatus = useCallback((status: ExportStatus) => {
+    setExportStatus(status);
+    if (status.state === 'recording') return;
+    setExportRequest(null);
+    if (status.blob) downloadBlob(status.blob, `launch-${Date.now()}.webm`);
+  }, []);
+
+  const handleCaptureComplete = useCallback((result: CaptureResult) => {
+    const kind = captureRequest?.progressValues ? 'storyboard' : 'still';
+    if (result.blob) downloadBlob(result.blob, `launch-${kind}-${Date.now()}.png`);
+    setCaptureError(result.error ?? null);
+    setCaptureRequest(null);
+  }, [captureRequest]);
+
+  // Scroll is an optional input: it seeks the clock, and follows the clock when something else moves it
+  React.useEffect(() => {
+    if (!scrollInput) return;
+    const maxScroll = () => document.documentElement.scrollHeight - window.innerHeight;
+    const handleScroll = () => {
+      if (Math.abs(window.scrollY - programmaticScrollRef.current) < 2) return;
+      missionClock.pause();
+      missionClock.seek(window.scrollY / maxScroll());
     };
-  }, [autoScroll]);
+    window.scrollTo(0, missionClock.getState().progress * maxScroll());
+    programmaticScrollRef.current = window.scrollY;
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [scrollInput, missionClock]);
+
+  React.useEffect(() => {
+    if (!scrollInput) return;
+    const target = (progressPercent / 100) * (document.documentElement.scrollHeight - window.innerHeight);
+    programmaticScrollRef.current = target;
+    window.scrollTo(0, target);
+  }, [scrollInput, progressPercent]);
 
   return (
     <main className="bg-black text-white h-full w-full">
-      {/* This div creates the scrollable space */}
-      <div style={{ height: '800vh' }} />
+      {/* This div creates the scrollable space when scroll drives the mission */}
+      {scrollInput && <div style={{ height: '800vh' }} />}
 
       <div className="fixed top-0 left-0 w-full h-full">
         <ThreeScene 
           setLoading={setLoading}
+          onLoadProgress={setLoadingProgress}
+          onLoadError={setLoadError}
+          loadAttempt={loadAttempt}
+          reducedQuality={reducedQuality}
+          skipLoadRequest={skipLoadRequest}
           onSceneUpdate={handleSceneUpdate}
           cameraAngle={cameraAngle}
+          timeline={timeline}
+          tle={tle}
+          epoch={epoch}
+          missionClock={missionClock}
+          exportRequest={exportRequest}
+          onExportStatus={handleExportStatus}
+          captureRequest={captureRequest}
+          onCaptureComplete={handleCaptureComplete}
+          vehicle={vehicle}
+          ascent={ascent}
+          launchPlan={launchPlan}
+          qualityMode={qualityMode}
+          onQualityStats={setQualityStats}
+          seed={seed}
+          onMissionEvent={handleMissionEvent}
         />
         <UIOverlay 
           loading={loading}
-          scrollPercent={scrollPercent}
+          loadingProgress={loadingProgress}
+          loadError={loadError}
+          onRetryLoad={retryLoad}
+          onContinueLoad={continueWithReducedQuality}
+          progressPercent={progressPercent}
           missionData={missionData}
           cameraAngle={cameraAngle}
           setCameraAngle={setCameraAngle}
-          autoScroll={autoScroll}
-          toggleAutoScroll={toggleAutoScroll}
+          missionClock={missionClock}
+          clockState={clockState}
+          scrollInput={scrollInput}
+          setScrollInput={setScrollInput}
+          timeline={timeline}
+          recoveryEpilogue={recoveryEpilogue && recoveryAvailable}
+          recoveryAvailable={recoveryAvailable}
+          setRecoveryEpilogue={setRecoveryEpilogue}
+          tle={tle}
+          setTle={setTle}
+          epoch={epoch}
+          setEpoch={setEpoch}
+          exportStatus={exportStatus}
+          onExport={setExportRequest}
+          capturing={captureRequest !== null}
+          captureError={captureError}
+          onCapture={setCaptureRequest}
+          vehicle={vehicle}
+          setVehicle={setVehicle}
+          launchPlan={launchPlan}
+          setLaunchPlan={setLaunchPlan}
+          qualityMode={qualityMode}
+          setQualityMode={setQualityMode}
+          qualityStats={qualityStats}
+          telemetryRecording={telemetryState.recording}
+          telemetrySampleCount={telemetryState.count}
+          onToggleTelemetryRecording={toggleTelemetryRecording}
+          onDownloadTelemetry={downloadTelemetry}
+          replay={replay}
+          setReplay={startReplay}
+          missionEvents={missionEvents}
         />
       </div>
     </main>
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import type { CameraAngle } from '../App';
+import type { MissionTimeline } from '../mission/timeline';
+import type { VideoExportOptions, ExportStatus } from '../scene/export';
+import { CAPTURE_SCALES } from '../scene/capture';
+import type { CaptureOptions } from '../scene/capture';
+
+interface ExportPanelProps {
+  cameraOptions: { id: CameraAngle; label: string }[];
+  timeline: MissionTimeline;
+  exportStatus: ExportStatus;
+  onExport: (options: VideoExportOptions) => void;
+  capturing: boolean;
+  captureError: string | null;
+  onCapture: (options: CaptureOptions) => void;
+}
+
+const RESOLUTIONS = [
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '1440p', width: 2560, height: 1440 },
+  { label: '4K', width: 3840, height: 2160 },
+];
+const FRAME_RATES = [24, 30, 60];
+
+const fieldClass = 'px-2 py-1 rounded-md border border-gray-700 bg-black bg-opacity-60 text-cyan-100';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ cameraOptions, timeline, exportStatus, onExport, capturing, captureError, onCapture }) => {
+  const [open, setOpen] = useState(false);
+  const [resolution, setResolution] = useState(1);
+  const [fps, setFps] = useState(30);
+  const [cameraAngle, setCameraAngle] = useState<CameraAngle>('cinematic');
+  const [startPercent, setStartPercent] = useState(0);
+  const [endPercent, setEndPercent] = useState(100);
+  const [captureScale, setCaptureScale] = useState(4);
+  const [includeHud, setIncludeHud] = useState(true);
+
+  const recording = exportStatus.state === 'recording';
+  const busy = recording || capturing;
+
+  // One storyboard frame at the middle of each mission phase
+  const handleStoryboard = () => onCapture({
+    scale: captureScale,
+    includeHud,
+    progressValues: timeline.phases.map(phase => (phase.start + phase.end) / 2),
+  });
+
+  const handleExport = () => {
+    const { width, height } = RESOLUTIONS[resolution];
+    const start = Math.max(0, Math.min(100, startPercent));
+    const end = Math.max(start, Math.min(100, endPercent));
+    onExport({ width, height, fps, cameraAngle, startProgress: start / 100, endProgress: end / 100 });
+  };
+
+  return (
+    <div className="pointer-events-auto text-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className={`w-full px-3 py-1 rounded-md transition-colors border border-gray-700 backdrop-blur-sm ${
+          open ? 'bg-cyan-500 text-black font-bold' : 'bg-black bg-opacity-40 hover:bg-gray-800'
+        }`}
+      >
+        🎬 Export
+      </button>
+
+      {open && (
+        <div className="mt-2 w-56 bg-black bg-opacity-60 backdrop-blur-sm p-3 rounded-lg border border-gray-700 flex flex-col gap-2 text-xs">
+          <label className="flex justify-between items-center gap-2">
+            Resolution
+            <select value={resolution} onChange={(e) => setResolution(Number(e.target.value))} className={fieldClass} disabled={recording}>
+              {RESOLUTIONS.map((r, i) => <option key={r.label} value={i}>{r.label}</option>)}
+            </select>
+          </label>
+          <label className="flex justify-between items-center gap-2">
+            Frame rate
+            <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className={fieldClass} disabled={recording}>
+              {FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+            </select>
+          </label>
+          <label className="flex justify-between items-center gap-2">
+            Camera
+            <select value={cameraAngle} onChange={(e) => setCameraAngle(e.target.value as CameraAngle)} className={fieldClass} disabled={recording}>
+              {cameraOptions.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+          </label>
+          <label className="flex justify-between items-center gap-2">
+            Range %
+            <span className="flex gap-1">
+              <input type="number" min={0} max={100} value={startPercent} onChange={(e) => setStartPercent(Number(e.target.value))} className={`${fieldClass} w-14`} disabled={recording} />
+              <input type="number" min={0} max={100} value={endPercent} onChange={(e) => setEndPercent(Number(e.target.value))} className={`${fieldClass} w-14`} disabled={recording} />
+            </span>
+          </label>
+
+          <button
+            onClick={handleExport}
+            disabled={busy}
+            className="px-3 py-1 rounded-md border border-gray-700 bg-black bg-opacity-40 hover:bg-gray-800 disabled:opacity-50"
+          >
+            {recording ? `Recording ${exportStatus.frame}/${exportStatus.totalFrames}` : 'Render WebM'}
+          </button>
+          {recording && (
+            <div className="h-1 w-full bg-gray-700 rounded-full">
+              <div className="h-full bg-cyan-400 rounded-full" style={{ width: `${(exportStatus.frame / exportStatus.totalFrames) * 100}%` }} />
+            </div>
+          )}
+          {exportStatus.state === 'done' && <p className="text-green-400">Export complete.</p>}
+          {exportStatus.state === 'error' && <p className="text-red-400">{exportStatus.error}</p>}
+
+          <div className="border-t border-gray-700 pt-2 flex flex-col gap-2">
+            <label className="flex justify-between items-center gap-2">
+              Still scale
+              <select value={captureScale} onChange={(e) => setCaptureScale(Number(e.target.value))} className={fieldClass} disabled={busy}>
+                {CAPTURE_SCALES.map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={includeHud} onChange={(e) => setIncludeHud(e.target.checked)} disabled={busy} />
+              Include HUD
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onCapture({ scale: captureScale, includeHud })}
+                disabled={busy}
+                className="flex-1 px-3 py-1 rounded-md border border-gray-700 bg-black bg-opacity-40 hover:bg-gray-800 disabled:opacity-50"
+              >
+                {capturing ? 'Capturing…' : 'PNG Still'}
+              </button>
+              <button
+                onClick={handleStoryboard}
+                disabled={busy}
+                className="flex-1 px-3 py-1 rounded-md border border-gray-700 bg-black bg-opacity-40 hover:bg-gray-800 disabled:opacity-50"
+              >
+                Storyboard
+              </button>
+            </div>
+            {captureError && <p className="text-red-400">{captureError}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { LAUNCH_SITES, launchInclination } from '../mission/launchSites';
+import type { LaunchPlan } from '../mission/launchSites';
+
+interface LaunchSitePanelProps {
+  launchPlan: LaunchPlan;
+  setLaunchPlan: (plan: LaunchPlan) => void;
+}
+
+const formatCoordinate = (value: number, positive: string, negative: string) =>
+  `${Math.abs(value).toFixed(1)}°${value >= 0 ? positive : negative}`;
+
+const LaunchSitePanel: React.FC<LaunchSitePanelProps> = ({ launchPlan, setLaunchPlan }) => {
+  const [open, setOpen] = useState(false);
+  const { site, azimuth } = launchPlan;
+
+  return (
+    <div className="text-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className={`w-full px-3 py-1 rounded-md transition-colors border border-gray-700 backdrop-blur-sm ${
+          open ? 'bg-cyan-500 text-black font-bold' : 'bg-black bg-opacity-40 hover:bg-gray-800'
+        }`}
+      >
+        📍 Launch Site
+      </button>
+
+      {open && (
+        <div className="mt-2 w-56 bg-black bg-opacity-60 backdrop-blur-sm p-3 rounded-lg border border-gray-700 flex flex-col gap-2">
+          {LAUNCH_SITES.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => setLaunchPlan({ site: preset, azimuth: preset.defaultAzimuth })}
+              className={`text-left px-2 py-1 rounded-md border ${
+                preset.id === site.id ? 'border-cyan-400 text-cyan-200' : 'border-gray-700 hover:bg-gray-800'
+              }`}
+            >
+              <p>{preset.name}</p>
+              <p className="text-xs text-gray-400">
+                {preset.location} · {formatCoordinate(preset.latitude, 'N', 'S')} {formatCoordinate(preset.longitude, 'E', 'W')}
+              </p>
+            </button>
+          ))}
+
+          <label className="flex flex-col gap-1 text-xs">
+            <span className="flex justify-between">
+              <span className="text-gray-400">Azimuth</span>
+              <span>{azimuth.toFixed(1)}°</span>
+            </span>
+            <input
+              type="range"
+              min={site.azimuths[0]}
+              max={site.azimuths[1]}
+              step={0.5}
+              value={azimuth}
+              onChange={(e) => setLaunchPlan({ site, azimuth: Number(e.target.value) })}
+            />
+          </label>
+          <p className="text-xs text-gray-400">Orbit inclination {(launchInclination(launchPlan) * 180 / Math.PI).toFixed(1)}°</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LaunchSitePanel;
@@ -0,0 +1,92 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { MissionEvent } from '../mission/events';
+
+interface MissionEventFeedProps {
+  missionEvents: MissionEvent[]; // Oldest first
+}
+
+const TOAST_MS = 4000;
+const FADE_MS = 500;
+const MAX_TOASTS = 4;
+
+const eventKey = (event: MissionEvent) => `${event.timestamp}-${event.type}-${event.direction}`;
+
+const formatMissionTime = (seconds: number) => `T+${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+// Slides in, holds, then fades out and asks to be removed
+const EventToast: React.FC<{ event: MissionEvent; onDone: (event: MissionEvent) => void }> = ({ event, onDone }) => {
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const enter = requestAnimationFrame(() => setVisible(true));
+    const leave = window.setTimeout(() => setVisible(false), TOAST_MS - FADE_MS);
+    const done = window.setTimeout(() => onDone(event), TOAST_MS);
+    return () => {
+      cancelAnimationFrame(enter);
+      window.clearTimeout(leave);
+      window.clearTimeout(done);
+    };
+  }, [event, onDone]);
+
+  const reverse = event.direction === 'reverse';
+  return (
+    <div
+      className={`px-3 py-2 rounded-lg border backdrop-blur-sm bg-black bg-opacity-60 transition-all duration-500 ${
+        reverse ? 'border-gray-600 text-gray-300' : 'border-cyan-500 text-cyan-100'
+      } ${visible ? 'opacity-100 translate-x-0' : 'opacity-0 -translate-x-8'}`}
+    >
+      <p className="text-base font-bold">{reverse ? `↺ ${event.label}` : event.label}</p>
+      <p className="text-xs text-gray-400">
+        {formatMissionTime(event.telemetry.missionTime)} · {event.telemetry.altitude.toFixed(1)} KM · {event.telemetry.velocity.toFixed(2)} KM/s
+      </p>
+    </div>
+  );
+};
+
+const MissionEventFeed: React.FC<MissionEventFeedProps> = ({ missionEvents }) => {
+  const [toasts, setToasts] = useState<MissionEvent[]>([]);
+  const [logOpen, setLogOpen] = useState(false);
+  const lastSeenRef = useRef<MissionEvent | null>(null);
+
+  // New arrivals since the last render become toasts
+  useEffect(() => {
+    const start = lastSeenRef.current ? missionEvents.lastIndexOf(lastSeenRef.current) + 1 : 0;
+    const fresh = missionEvents.slice(start);
+    lastSeenRef.current = missionEvents[missionEvents.length - 1] ?? null;
+    if (fresh.length > 0) setToasts(current => [...current, ...fresh].slice(-MAX_TOASTS));
+  }, [missionEvents]);
+
+  const dismiss = useCallback((event: MissionEvent) => setToasts(current => current.filter(toast => toast !== event)), []);
+
+  return (
+    <div className="absolute left-8 bottom-8 w-72 flex flex-col gap-2 text-sm">
+      {toasts.map(event => <EventToast key={eventKey(event)} event={event} onDone={dismiss} />)}
+
+      <div className="pointer-events-auto">
+        <button
+          onClick={() => setLogOpen(prev => !prev)}
+          className={`px-3 py-1 rounded-md transition-colors border border-gray-700 backdrop-blur-sm ${
+            logOpen ? 'bg-cyan-500 text-black font-bold' : 'bg-black bg-opacity-40 hover:bg-gray-800'
+          }`}
+        >
+          🗒️ Event Log ({missionEvents.length})
+        </button>
+        {logOpen && (
+          <ul className="mt-2 max-h-48 overflow-y-auto bg-black bg-opacity-60 backdrop-blur-sm p-2 rounded-lg border border-gray-700 flex flex-col gap-1 text-xs">
+            {missionEvents.length === 0 && <li className="text-gray-400">No events yet</li>}
+            {[...missionEvents].reverse().map(event => (
+              <li key={eventKey(event)} className={`flex justify-between gap-2 ${event.direction === 'reverse' ? 'text-gray-500' : ''}`}>
+                <span>{event.direction === 'reverse' ? `↺ ${event.label}` : event.label}</span>
+                <span className="text-gray-400">
+                  {formatMissionTime(event.telemetry.missionTime)} · {new Date(event.timestamp).toLocaleTimeString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MissionEventFeed;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { QUALITY_LABELS, QUALITY_LEVELS } from '../scene/quality';
+import type { QualityMode, QualityStats } from '../scene/quality';
+
+interface QualityPanelProps {
+  qualityMode: QualityMode;
+  setQualityMode: (mode: QualityMode) => void;
+  qualityStats: QualityStats | null;
+}
+
+const MODES: QualityMode[] = ['auto', ...QUALITY_LEVELS];
+
+const QualityPanel: React.FC<QualityPanelProps> = ({ qualityMode, setQualityMode, qualityStats }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="text-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className={`w-full px-3 py-1 rounded-md transition-colors border border-gray-700 backdrop-blur-sm ${
+          open ? 'bg-cyan-500 text-black font-bold' : 'bg-black bg-opacity-40 hover:bg-gray-800'
+        }`}
+      >
+        ⚙️ Quality
+      </button>
+
+      {open && (
+        <div className="mt-2 w-56 bg-black bg-opacity-60 backdrop-blur-sm p-3 rounded-lg border border-gray-700 flex flex-col gap-2">
+          <div className="grid grid-cols-3 gap-1">
+            {MODES.map(mode => (
+              <button
+                key={mode}
+                onClick={() => setQualityMode(mode)}
+                className={`px-2 py-1 rounded-md border ${
+                  mode === qualityMode ? 'border-cyan-400 text-cyan-200' : 'border-gray-700 hover:bg-gray-800'
+                }`}
+              >
+                {QUALITY_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+          {qualityStats && (
+            <p className="text-xs text-gray-400">
+              {qualityStats.fps.toFixed(0)} fps · {QUALITY_LABELS[qualityStats.preset]}
+              {qualityMode === 'auto' && ' (auto)'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QualityPanel;
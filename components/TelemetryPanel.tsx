@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import type { MissionData } from '../App';
+
+interface TelemetryPanelProps {
+  missionData: MissionData;
+}
+
+interface TelemetryPoint {
+  time: number; // s since liftoff
+  altitude: number; // km
+  velocity: number; // km/s
+  acceleration: number; // g
+}
+
+const CHART_WINDOW = 120; // s of mission time shown by the rolling charts
+const SAMPLE_SPACING = 0.25; // s between stored points
+const MAX_Q_HIGHLIGHT = 3; // s either side of max-Q that the readout is flagged
+
+interface TelemetryChartProps {
+  label: string;
+  unit: string;
+  digits: number;
+  color: string;
+  points: TelemetryPoint[];
+  value: (point: TelemetryPoint) => number;
+  start: number; // s, left edge
+  markerTime: number; // s, drawn as a dashed line while inside the window
+}
+
+const TelemetryChart: React.FC<TelemetryChartProps> = ({ label, unit, digits, color, points, value, start, markerTime }) => {
+  const peak = Math.max(1e-3, ...points.map(value)) * 1.1;
+  const x = (time: number) => ((time - start) / CHART_WINDOW) * 100;
+  const y = (v: number) => 40 - (v / peak) * 40;
+  const line = points.map(point => `${x(point.time).toFixed(2)},${y(value(point)).toFixed(2)}`).join(' ');
+  const latest = points.length > 0 ? value(points[points.length - 1]) : 0;
+
+  return (
+    <div>
+      <p className="flex justify-between text-xs">
+        <span className="text-gray-400">{label}</span>
+        <span>{latest.toFixed(digits)} {unit}</span>
+      </p>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="mt-1 w-full h-12 bg-black bg-opacity-40 rounded">
+        {markerTime >= start && markerTime <= start + CHART_WINDOW && (
+          <line x1={x(markerTime)} x2={x(markerTime)} y1={0} y2={40} stroke="#facc15" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+        )}
+        <polyline points={line} fill="none" stroke={color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      </svg>
+    </div>
+  );
+};
+
+// Rolling history of the readouts; scrubbing back drops everything after the new time
+const appendTelemetryPoint = (history: TelemetryPoint[], point: TelemetryPoint) => {
+  let next = history;
+  if (next.length > 0 && point.time < next[next.length - 1].time) {
+    next = next.filter(existing => existing.time <= point.time);
+  }
+  if (next.length === 0 || point.time - next[next.length - 1].time >= SAMPLE_SPACING) {
+    next = [...next.filter(existing => existing.time >= point.time - CHART_WINDOW), point];
+  }
+  return next;
+};
+
+const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ missionData }) => {
+  const [open, setOpen] = useState(true);
+  const [history, setHistory] = useState<TelemetryPoint[]>([]);
+
+  const { missionTime, altitude, velocity, acceleration, maxQ } = missionData;
+  useEffect(() => {
+    setHistory(current => appendTelemetryPoint(current, { time: missionTime, altitude, velocity, acceleration }));
+  }, [missionTime, altitude, velocity, acceleration]);
+  const start = Math.max(0, missionTime - CHART_WINDOW);
+
+  const nearMaxQ = Math.abs(missionTime - maxQ.time) <= MAX_Q_HIGHLIGHT;
+  const pastMaxQ = missionTime > maxQ.time + MAX_Q_HIGHLIGHT;
+
+  return (
+    <div className="mt-2 text-sm pointer-events-auto">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full px-3 py-1 rounded-md border border-gray-700 bg-black bg-opacity-40 hover:bg-gray-800"
+      >
+        📈 Telemetry {open ? '▾' : '▸'}
+      </button>
+
+      {open && (
+        <div className="mt-2 flex flex-col gap-3 text-left">
+          <div className="grid grid-cols-3 gap-3">
+            <TelemetryChart label="Altitude" unit="KM" digits={0} color="#22d3ee" points={history} value={point => point.altitude} start={start} markerTime={maxQ.time} />
+            <TelemetryChart label="Velocity" unit="KM/s" digits={2} color="#4ade80" points={history} value={point => point.velocity} start={start} markerTime={maxQ.time} />
+            <TelemetryChart label="Accel" unit="G" digits={2} color="#f472b6" points={history} value={point => point.acceleration} start={start} markerTime={maxQ.time} />
+          </div>
+
+          <div className="grid grid-cols-4 gap-3 text-center">
+            <div>
+              <p className="text-gray-400">G-Load</p>
+              <p className="text-lg">{missionData.acceleration.toFixed(2)} G</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Downrange</p>
+              <p className="text-lg">{missionData.downrange.toFixed(0)} KM</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Dyn. Pressure</p>
+              <p className="text-lg">{missionData.dynamicPressure.toFixed(1)} kPa</p>
+              <p className={`text-xs ${nearMaxQ ? 'text-yellow-300 font-bold' : 'text-gray-400'}`}>
+                {nearMaxQ ? 'MAX-Q' : pastMaxQ ? 'Max-Q passed' : 'Max-Q'} {maxQ.dynamicPressure.toFixed(1)} kPa · T+{maxQ.time.toFixed(0)}s
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-400">Throttle</p>
+              <p className="text-lg">{(missionData.throttle * 100).toFixed(0)}%</p>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1 text-xs">
+            {missionData.propellant.map(level => (
+              <div key={level.stage} className="flex items-center gap-2">
+                <span className="w-32 text-gray-400 truncate">{level.stage}</span>
+                <div className="flex-1 h-2 bg-gray-700 rounded-full">
+                  <div className="h-full bg-orange-400 rounded-full" style={{ width: `${Math.max(0, Math.min(1, level.remaining)) * 100}%` }} />
+                </div>
+                <span className="w-10 text-right">{(level.remaining * 100).toFixed(0)}%</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TelemetryPanel;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { parseRecording } from '../mission/telemetry';
+import { VEHICLE_PRESETS } from '../scene/vehicles';
+import type { TelemetryRecording } from '../mission/telemetry';
+
+interface TelemetryRecorderPanelProps {
+  recording: boolean;
+  sampleCount: number;
+  onToggleRecording: () => void;
+  onDownload: (format: 'csv' | 'json') => void;
+  replay: TelemetryRecording | null;
+  setReplay: (recording: TelemetryRecording | null) => void;
+}
+
+const buttonClass = 'px-2 py-1 rounded-md border border-gray-700 bg-black bg-opacity-40 hover:bg-gray-800 disabled:opacity-40';
+
+const TelemetryRecorderPanel: React.FC<TelemetryRecorderPanelProps> = ({ recording, sampleCount, onToggleRecording, onDownload, replay, setReplay }) => {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const recording = parseRecording(await file.text());
+      if (!VEHICLE_PRESETS.some(vehicle => vehicle.id === recording.timeline.vehicle)) {
+        throw new Error(`Telemetry was recorded with an unknown vehicle "${recording.timeline.vehicle}"`);
+      }
+      setReplay(recording);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <div className="text-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className={`w-full px-3 py-1 rounded-md transition-colors border border-gray-700 backdrop-blur-sm ${
+          open ? 'bg-cyan-500 text-black font-bold' : 'bg-black bg-opacity-40 hover:bg-gray-800'
+        }`}
+      >
+        {recording ? '🔴' : '📼'} Telemetry Log
+      </button>
+
+      {open && (
+        <div className="mt-2 w-56 bg-black bg-opacity-60 backdrop-blur-sm p-3 rounded-lg border border-gray-700 flex flex-col gap-2">
+          <button onClick={onToggleRecording} disabled={replay !== null} className={buttonClass}>
+            {recording ? 'Stop recording' : 'Start recording'}
+          </button>
+          <p className="text-xs text-gray-400">{sampleCount} samples{recording && ' · recording'}</p>
+          <div className="grid grid-cols-2 gap-1">
+            <button onClick={() => onDownload('csv')} disabled={sampleCount === 0} className={buttonClass}>CSV</button>
+            <button onClick={() => onDownload('json')} disabled={sampleCount === 0} className={buttonClass}>JSON</button>
+          </div>
+
+          {replay ? (
+            <button onClick={() => setReplay(null)} className={buttonClass}>Stop replay</button>
+          ) : (
+            <label className={`${buttonClass} text-center cursor-pointer`}>
+              Replay JSON…
+              <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+            </label>
+          )}
+          {replay && <p className="text-xs text-cyan-200">Replaying {replay.samples.length} samples</p>}
+          {error && <p className="text-red-400 text-xs">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TelemetryRecorderPanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { parseTle } from '../mission/tle';
+import { createSgp4 } from '../mission/sgp4';
+import type { Tle } from '../mission/tle';
+
+interface TlePanelProps {
+  tle: Tle | null;
+  setTle: (tle: Tle | null) => void;
+  epoch: Date | null;
+  setEpoch: (epoch: Date | null) => void;
+}
+
+// datetime-local values are treated as UTC
+const toInputValue = (date: Date) => date.toISOString().slice(0, 16);
+
+const TlePanel: React.FC<TlePanelProps> = ({ tle, setTle, epoch, setEpoch }) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const applyText = (value: string) => {
+    try {
+      const parsed = parseTle(value);
+      if (createSgp4(parsed).deepSpace) {
+        throw new Error(`${parsed.name} has a ${Math.round(1440 / parsed.meanMotion)} min period; deep-space orbits (225 min or longer) are not supported`);
+      }
+      setTle(parsed);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const value = await file.text();
+    setText(value);
+    applyText(value);
+    event.target.value = '';
+  };
+
+  const handleEpoch = (value: string) => {
+    const date = new Date(`${value}Z`);
+    if (!Number.isNaN(date.getTime())) setEpoch(date);
+  };
+
+  return (
+    <div className="mt-4 pointer-events-auto max-w-sm text-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className={`px-3 py-1 rounded-md transition-colors border border-gray-700 backdrop-blur-sm ${
+          open ? 'bg-cyan-500 text-black font-bold' : 'bg-black bg-opacity-40 hover:bg-gray-800'
+        }`}
+      >
+        🛰️ TLE
+      </button>
+
+      {open && (
+        <div className="mt-2 bg-black bg-opacity-60 backdrop-blur-sm p-3 rounded-lg border border-gray-700 flex flex-col gap-2">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'ISS (ZARYA)\n1 25544U ...\n2 25544 ...'}
+            rows={3}
+            spellCheck={false}
+            className="w-full bg-black bg-opacity-60 border border-gray-700 rounded-md p-2 text-xs font-mono text-cyan-100 whitespace-pre"
+          />
+          <div className="flex gap-2">
+            <button onClick={() => applyText(text)} className="px-3 py-1 rounded-md border border-gray-700 bg-black bg-opacity-40 hover:bg-gray-800">
+              Apply
+            </button>
+            <label className="px-3 py-1 rounded-md border border-gray-700 bg-black bg-opacity-40 hover:bg-gray-800 cursor-pointer">
+              Load file
+              <input type="file" accept=".tle,.txt,text/plain" onChange={handleFile} className="hidden" />
+            </label>
+            {tle && (
+              <button onClick={() => { setTle(null); setError(null); }} className="px-3 py-1 rounded-md border border-gray-700 bg-black bg-opacity-40 hover:bg-gray-800">
+                Clear
+              </button>
+            )}
+          </div>
+          {error && <p className="text-red-400 text-xs">{error}</p>}
+
+          <div className="flex items-center gap-2 text-xs">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={epoch === null} onChange={(e) => setEpoch(e.target.checked ? null : tle?.epoch ?? new Date())} />
+              Live UTC
+            </label>
+            {epoch && (
+              <input
+                type="datetime-local"
+                value={toInputValue(epoch)}
+                onChange={(e) => handleEpoch(e.target.value)}
+                className="bg-black bg-opacity-60 border border-gray-700 rounded-md px-1 text-cyan-100"
+              />
+            )}
+            {epoch && <span className="text-gray-400">UTC</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TlePanel;
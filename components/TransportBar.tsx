@@ -0,0 +1,107 @@
+import React, { useRef } from 'react';
+import { PLAYBACK_SPEEDS } from '../mission/clock';
+import type { MissionClock, MissionClockState } from '../mission/clock';
+import type { MissionTimeline } from '../mission/timeline';
+
+interface TransportBarProps {
+  missionClock: MissionClock;
+  clockState: MissionClockState;
+  progressPercent: number;
+  timeline: MissionTimeline;
+  scrollInput: boolean;
+  setScrollInput: (enabled: boolean) => void;
+  recoveryEpilogue: boolean;
+  recoveryAvailable: boolean;
+  setRecoveryEpilogue: (enabled: boolean) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60).toString().padStart(2, '0')}:${(s % 60).toString().padStart(2, '0')}`;
+};
+
+const buttonClass = (active: boolean) => `px-3 py-1 text-sm rounded-md transition-colors border border-gray-700 backdrop-blur-sm ${
+  active ? 'bg-cyan-500 text-black font-bold' : 'bg-black bg-opacity-40 hover:bg-gray-800'
+}`;
+
+const TransportBar: React.FC<TransportBarProps> = ({ missionClock, clockState, progressPercent, timeline, scrollInput, setScrollInput, recoveryEpilogue, recoveryAvailable, setRecoveryEpilogue }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  const seekToPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    missionClock.seek((event.clientX - rect.left) / rect.width);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    draggingRef.current = true;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    seekToPointer(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (draggingRef.current) seekToPointer(event);
+  };
+
+  const handlePointerUp = () => { draggingRef.current = false; };
+
+  return (
+    <div className="pointer-events-auto w-full max-w-3xl bg-black bg-opacity-50 backdrop-blur-sm p-3 rounded-lg border border-gray-700 mb-3">
+      <div className="flex items-center gap-2">
+        <button onClick={missionClock.toggle} className={buttonClass(clockState.playing)}>
+          {clockState.playing ? '⏸' : '▶'}
+        </button>
+        <select
+          value={clockState.speed}
+          onChange={(e) => missionClock.setSpeed(Number(e.target.value))}
+          className="px-2 py-1 text-sm rounded-md border border-gray-700 bg-black bg-opacity-40"
+        >
+          {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+        </select>
+        <button onClick={() => missionClock.setLoop(!clockState.loop)} className={buttonClass(clockState.loop)}>
+          ⟳ Loop
+        </button>
+        <button onClick={() => setScrollInput(!scrollInput)} className={buttonClass(scrollInput)}>
+          ⇕ Scroll
+        </button>
+        <button
+          onClick={() => setRecoveryEpilogue(!recoveryEpilogue)}
+          disabled={!recoveryAvailable}
+          title={recoveryAvailable ? undefined : 'This vehicle has no boosters to recover'}
+          className={`${buttonClass(recoveryEpilogue)} disabled:opacity-40`}
+        >
+          🛬 Recovery
+        </button>
+        <span className="ml-auto text-sm text-gray-300">
+          {formatTime((progressPercent / 100) * timeline.duration)} / {formatTime(timeline.duration)}
+        </span>
+      </div>
+
+      {/* Scrubber with a marker at the start of each phase */}
+      <div
+        ref={trackRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="relative mt-3 h-3 bg-gray-700 rounded-full cursor-pointer"
+      >
+        <div className="absolute top-0 left-0 h-full bg-cyan-400 rounded-full" style={{ width: `${progressPercent}%` }} />
+        {timeline.phases.map(phase => (
+          <div
+            key={phase.id}
+            title={phase.label}
+            className="absolute top-0 h-full w-px bg-white bg-opacity-60"
+            style={{ left: `${phase.start * 100}%` }}
+          />
+        ))}
+        <div
+          className="absolute top-1/2 w-4 h-4 -mt-2 -ml-2 rounded-full bg-white border-2 border-cyan-400"
+          style={{ left: `${progressPercent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TransportBar;
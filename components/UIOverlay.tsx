@@ -1,64 +1,159 @@
 import React from 'react';
 import type { MissionData, CameraAngle } from '../App';
+import { countdownAt } from '../mission/timeline';
+import type { MissionTimeline } from '../mission/timeline';
+import type { Tle } from '../mission/tle';
+import type { MissionClock, MissionClockState } from '../mission/clock';
+import type { VideoExportOptions, ExportStatus } from '../scene/export';
+import type { CaptureOptions } from '../scene/capture';
+import type { AssetState, LoadingProgress } from '../scene/assets';
+import TlePanel from './TlePanel';
+import TransportBar from './TransportBar';
+import ExportPanel from './ExportPanel';
+import VehiclePanel from './VehiclePanel';
+import type { VehicleSpec } from '../scene/vehicles';
+import LaunchSitePanel from './LaunchSitePanel';
+import type { LaunchPlan } from '../mission/launchSites';
+import QualityPanel from './QualityPanel';
+import TelemetryPanel from './TelemetryPanel';
+import type { QualityMode, QualityStats } from '../scene/quality';
+import TelemetryRecorderPanel from './TelemetryRecorderPanel';
+import type { TelemetryRecording } from '../mission/telemetry';
+import MissionEventFeed from './MissionEventFeed';
+import type { MissionEvent } from '../mission/events';
 
 interface UIOverlayProps {
   loading: boolean;
-  scrollPercent: number;
+  loadingProgress: LoadingProgress;
+  loadError: string | null;
+  onRetryLoad: () => void;
+  onContinueLoad: () => void;
+  progressPercent: number;
   missionData: MissionData;
   cameraAngle: CameraAngle;
   setCameraAngle: (angle: CameraAngle) => void;
-  autoScroll: boolean;
-  toggleAutoScroll: () => void;
+  missionClock: MissionClock;
+  clockState: MissionClockState;
+  scrollInput: boolean;
+  setScrollInput: (enabled: boolean) => void;
+  timeline: MissionTimeline;
+  recoveryEpilogue: boolean;
+  recoveryAvailable: boolean; // Only vehicles with boosters have one to recover
+  setRecoveryEpilogue: (enabled: boolean) => void;
+  tle: Tle | null;
+  setTle: (tle: Tle | null) => void;
+  epoch: Date | null;
+  setEpoch: (epoch: Date | null) => void;
+  exportStatus: ExportStatus;
+  onExport: (options: VideoExportOptions) => void;
+  capturing: boolean;
+  captureError: string | null;
+  onCapture: (options: CaptureOptions) => void;
+  vehicle: VehicleSpec;
+  setVehicle: (vehicle: VehicleSpec) => void;
+  launchPlan: LaunchPlan;
+  setLaunchPlan: (plan: LaunchPlan) => void;
+  qualityMode: QualityMode;
+  setQualityMode: (mode: QualityMode) => void;
+  qualityStats: QualityStats | null;
+  telemetryRecording: boolean;
+  telemetrySampleCount: number;
+  onToggleTelemetryRecording: () => void;
+  onDownloadTelemetry: (format: 'csv' | 'json') => void;
+  replay: TelemetryRecording | null;
+  setReplay: (recording: TelemetryRecording | null) => void;
+  missionEvents: MissionEvent[];
 }
 
-const UIOverlay: React.FC<UIOverlayProps> = ({ loading, scrollPercent, missionData, cameraAngle, setCameraAngle, autoScroll, toggleAutoScroll }) => {
+const cameraOptions: { id: CameraAngle; label: string }[] = [
+  { id: 'cinematic', label: 'Cinematic' },
+  { id: 'follow', label: 'Follow Cam' },
+  { id: 'wide', label: 'Wide Angle' },
+];
+
+const ASSET_STATE_LABELS: Record<AssetState, { text: string; className: string }> = {
+  loading: { text: 'loading', className: 'text-gray-400' },
+  loaded: { text: 'ready', className: 'text-green-400' },
+  fallback: { text: 'procedural', className: 'text-yellow-400' },
+  failed: { text: 'failed', className: 'text-red-400' },
+};
+
+const loadButtonClass = 'px-3 py-1 text-sm rounded-md border border-gray-700 bg-black bg-opacity-40 hover:bg-gray-800';
+
+const UIOverlay: React.FC<UIOverlayProps> = ({ loading, loadingProgress, loadError, onRetryLoad, onContinueLoad, progressPercent, missionData, cameraAngle, setCameraAngle, missionClock, clockState, scrollInput, setScrollInput, timeline, recoveryEpilogue, recoveryAvailable, setRecoveryEpilogue, tle, setTle, epoch, setEpoch, exportStatus, onExport, capturing, captureError, onCapture, vehicle, setVehicle, launchPlan, setLaunchPlan, qualityMode, setQualityMode, qualityStats, telemetryRecording, telemetrySampleCount, onToggleTelemetryRecording, onDownloadTelemetry, replay, setReplay, missionEvents }) => {
   const getCountdown = () => {
-    if (scrollPercent < 10) return 'T-00:00:10';
-    if (scrollPercent < 25) {
-      const countdownProgress = (scrollPercent - 10) / 15;
-      const countdown = 10 - Math.floor(countdownProgress * 10);
-      return `T-00:00:${countdown.toString().padStart(2, '0')}`;
-    }
-    return 'LIFTOFF';
+    const remaining = countdownAt(timeline, progressPercent / 100);
+    if (remaining <= 0) return 'LIFTOFF';
+    const countdown = Math.ceil(remaining);
+    return `T-00:00:${countdown.toString().padStart(2, '0')}`;
   };
 
+  const { assets, timedOut } = loadingProgress;
+  const settledAssets = assets.filter(asset => asset.state !== 'loading').length;
+  const degraded = assets.some(asset => asset.state === 'fallback' || asset.state === 'failed');
+
   if (loading) {
     return (
-      <div className="absolute top-0 left-0 w-full h-full bg-black bg-opacity-80 flex flex-col justify-center items-center z-20">
-        <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-cyan-400"></div>
-        <p className="mt-4 text-lg text-cyan-200">Loading High-Resolution Textures...</p>
+      <div className="absolute top-0 left-0 w-full h-full bg-black bg-opacity-80 flex flex-col justify-center items-center z-20 font-mono text-white">
+        {loadError ? (
+          <p className="text-lg text-red-400 max-w-md text-center">{loadError}</p>
+        ) : (
+          <>
+            <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-cyan-400"></div>
+            <p className="mt-4 text-lg text-cyan-200">Loading High-Resolution Textures...</p>
+          </>
+        )}
+
+        {assets.length > 0 && (
+          <div className="mt-4 w-80">
+            <div className="h-2 w-full bg-gray-700 rounded-full">
+              <div className="h-full bg-cyan-400 rounded-full transition-all" style={{ width: `${(settledAssets / assets.length) * 100}%` }} />
+            </div>
+            <ul className="mt-3 text-xs flex flex-col gap-1">
+              {assets.map(asset => (
+                <li key={asset.name} className="flex justify-between gap-2">
+                  <span className="truncate" title={asset.url}>{asset.name}</span>
+                  <span className={ASSET_STATE_LABELS[asset.state].className}>{ASSET_STATE_LABELS[asset.state].text}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {(timedOut || loadError) && (
+          <div className="mt-4 flex flex-col items-center gap-2">
+            {timedOut && !loadError && <p className="text-sm text-yellow-400">This is taking longer than expected.</p>}
+            <div className="flex gap-2">
+              <button onClick={onRetryLoad} className={loadButtonClass}>Retry</button>
+              {assets.length > 0 && (
+                <button onClick={onContinueLoad} className={loadButtonClass}>Continue with reduced quality</button>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     );
   }
 
-  const cameraOptions: { id: CameraAngle; label: string }[] = [
-    { id: 'cinematic', label: 'Cinematic' },
-    { id: 'follow', label: 'Follow Cam' },
-    { id: 'wide', label: 'Wide Angle' },
-  ];
-
   return (
     <div className="absolute top-0 left-0 w-full h-full pointer-events-none z-10 p-8 text-white font-mono flex flex-col justify-between">
       {/* Top Left Info */}
       <div>
         <h1 className="text-3xl font-bold text-cyan-300">SATELLITE LAUNCH SIM</h1>
         <p className="text-lg">Mission: Orbit Insertion</p>
+        <p className="text-sm text-cyan-200">Launch site: {missionData.site} · Az {launchPlan.azimuth.toFixed(1)}°</p>
+        {tle && <p className="text-sm text-cyan-200">Payload: {tle.name} · NORAD {tle.noradId}</p>}
+        <TlePanel tle={tle} setTle={setTle} epoch={epoch} setEpoch={setEpoch} />
+        {(degraded || loadError) && (
+          <div className="mt-4 pointer-events-auto max-w-sm text-sm bg-black bg-opacity-60 p-3 rounded-lg border border-yellow-600 text-yellow-300">
+            <p>{loadError ?? 'Some textures could not be loaded; procedural stand-ins are shown.'}</p>
+            <button onClick={onRetryLoad} className={`mt-2 ${loadButtonClass}`}>Retry loading</button>
+          </div>
+        )}
       </div>
 
       {/* Top Right Camera Controls */}
       <div className="absolute top-8 right-24 flex flex-col gap-2 pointer-events-auto">
-        {/* Auto Scroll Button */}
-        <button
-          onClick={toggleAutoScroll}
-          className={`px-3 py-1 text-sm rounded-md transition-colors border border-gray-700 backdrop-blur-sm ${
-            autoScroll
-              ? 'bg-green-500 text-black font-bold animate-pulse'
-              : 'bg-black bg-opacity-40 hover:bg-gray-800'
-          }`}
-        >
-          {autoScroll ? '⏸ Auto' : '▶ Auto'}
-        </button>
-        
         {/* Camera Angle Buttons */}
         {cameraOptions.map((option) => (
           <button
@@ -73,22 +168,53 @@ const UIOverlay: React.FC<UIOverlayProps> = ({ loading, scrollPercent, missionDa
             {option.label}
           </button>
         ))}
+        <VehiclePanel vehicle={vehicle} setVehicle={setVehicle} />
+        <LaunchSitePanel launchPlan={launchPlan} setLaunchPlan={setLaunchPlan} />
+        <QualityPanel qualityMode={qualityMode} setQualityMode={setQualityMode} qualityStats={qualityStats} />
+        <TelemetryRecorderPanel
+          recording={telemetryRecording}
+          sampleCount={telemetrySampleCount}
+          onToggleRecording={onToggleTelemetryRecording}
+          onDownload={onDownloadTelemetry}
+          replay={replay}
+          setReplay={setReplay}
+        />
+        <ExportPanel
+          cameraOptions={cameraOptions}
+          timeline={timeline}
+          exportStatus={exportStatus}
+          onExport={onExport}
+          capturing={capturing}
+          captureError={captureError}
+          onCapture={onCapture}
+        />
       </div>
       
-      {/* Scroll Progress Bar on the right */}
+      {/* Mission Progress Bar on the right */}
       <div className="absolute top-1/2 right-8 -translate-y-1/2 flex flex-col items-center">
         <div className="h-64 w-1 bg-gray-700 rounded-full">
           <div 
             className="w-full bg-cyan-400 rounded-full" 
-            style={{ height: `${scrollPercent}%` }}
+            style={{ height: `${progressPercent}%` }}
           />
         </div>
-        <p className="mt-4 text-sm">{scrollPercent.toFixed(0)}%</p>
+        <p className="mt-4 text-sm">{progressPercent.toFixed(0)}%</p>
       </div>
 
       {/* Bottom Center Info */}
-      <div className="w-full flex justify-center">
-        <div className="bg-black bg-opacity-50 backdrop-blur-sm p-4 rounded-lg text-center border border-gray-700 max-w-lg">
+      <div className="w-full flex flex-col items-center">
+        <TransportBar
+          missionClock={missionClock}
+          clockState={clockState}
+          progressPercent={progressPercent}
+          timeline={timeline}
+          scrollInput={scrollInput}
+          setScrollInput={setScrollInput}
+          recoveryEpilogue={recoveryEpilogue}
+          recoveryAvailable={recoveryAvailable}
+          setRecoveryEpilogue={setRecoveryEpilogue}
+        />
+        <div className="bg-black bg-opacity-50 backdrop-blur-sm p-4 rounded-lg text-center border border-gray-700 w-full max-w-xl">
           <h2 className="text-xl text-cyan-400">Phase: {missionData.phase}</h2>
           <div className="mt-2 grid grid-cols-3 gap-4 text-sm">
             <div>
@@ -104,11 +230,50 @@ const UIOverlay: React.FC<UIOverlayProps> = ({ loading, scrollPercent, missionDa
               <p className="text-lg">{getCountdown()}</p>
             </div>
           </div>
+          <TelemetryPanel missionData={missionData} />
+          {missionData.orbit && (
+            <div className="mt-2 grid grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-gray-400">Apoapsis</p>
+                <p className="text-lg">{missionData.orbit.apoapsis.toFixed(0)} KM</p>
+              </div>
+              <div>
+                <p className="text-gray-400">Periapsis</p>
+                <p className="text-lg">{missionData.orbit.periapsis.toFixed(0)} KM</p>
+              </div>
+              <div>
+                <p className="text-gray-400">Period</p>
+                <p className="text-lg">{missionData.orbit.period.toFixed(1)} MIN</p>
+              </div>
+              <div>
+                <p className="text-gray-400">Inclination</p>
+                <p className="text-lg">{missionData.orbit.inclination.toFixed(1)}°</p>
+              </div>
+            </div>
+          )}
+          {missionData.recovery && (
+            <div className="mt-2 grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-400">Booster Alt</p>
+                <p className="text-lg">{missionData.recovery.altitude.toFixed(2)} KM</p>
+              </div>
+              <div>
+                <p className="text-gray-400">Booster V/S</p>
+                <p className="text-lg">{missionData.recovery.verticalSpeed.toFixed(0)} m/s</p>
+              </div>
+              <div>
+                <p className="text-gray-400">Booster Burn</p>
+                <p className="text-lg capitalize">{missionData.recovery.burn}</p>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
+      <MissionEventFeed missionEvents={missionEvents} />
+
       {/* Exploration Notification - Minimalistic corner note */}
-      {scrollPercent >= 95 && (
+      {progressPercent >= 95 && !missionData.recovery && (
         <div className="absolute bottom-24 right-8 pointer-events-auto">
           <div className="bg-black bg-opacity-40 backdrop-blur-md p-4 rounded-lg border border-cyan-500 border-opacity-30 max-w-xs">
             <div className="flex items-start gap-3">
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { VEHICLE_PRESETS } from '../scene/vehicles';
+import type { VehicleSpec } from '../scene/vehicles';
+
+interface VehiclePanelProps {
+  vehicle: VehicleSpec;
+  setVehicle: (vehicle: VehicleSpec) => void;
+}
+
+const VehiclePanel: React.FC<VehiclePanelProps> = ({ vehicle, setVehicle }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="text-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className={`w-full px-3 py-1 rounded-md transition-colors border border-gray-700 backdrop-blur-sm ${
+          open ? 'bg-cyan-500 text-black font-bold' : 'bg-black bg-opacity-40 hover:bg-gray-800'
+        }`}
+      >
+        🚀 Vehicle
+      </button>
+
+      {open && (
+        <div className="mt-2 w-56 bg-black bg-opacity-60 backdrop-blur-sm p-3 rounded-lg border border-gray-700 flex flex-col gap-2">
+          {VEHICLE_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => setVehicle(preset)}
+              className={`text-left px-2 py-1 rounded-md border ${
+                preset.id === vehicle.id ? 'border-cyan-400 text-cyan-200' : 'border-gray-700 hover:bg-gray-800'
+              }`}
+            >
+              <p>{preset.name}</p>
+              <p className="text-xs text-gray-400">{preset.description}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VehiclePanel;
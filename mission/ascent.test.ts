@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ASCENT_GUIDANCE, DEFAULT_ASCENT_VEHICLE, EARTH_MU, EARTH_RADIUS_M, G0, propellantTanks, sampleAscent, simulateAscent } from './ascent';
+
+describe('simulateAscent', () => {
+  const profile = simulateAscent();
+  const { events, samples } = profile;
+  const last = samples[samples.length - 1];
+
+  it('reaches orbit at the target altitude', () => {
+    const circular = Math.sqrt(EARTH_MU / (EARTH_RADIUS_M + last.altitude));
+    expect(last.altitude).toBeGreaterThan(DEFAULT_ASCENT_GUIDANCE.targetAltitude * 0.9);
+    expect(last.velocity).toBeGreaterThanOrEqual(circular * 0.99);
+  });
+
+  it('fires the staging events in flight order', () => {
+    const { maxQ, boosterSeparation, meco, stageSeparation, upperStageIgnition, fairingJettison, seco } = events;
+    expect(boosterSeparation).not.toBeNull();
+    expect(fairingJettison).not.toBeNull();
+    expect(maxQ).toBeLessThan(boosterSeparation ?? 0);
+    expect(boosterSeparation).toBeLessThan(meco);
+    expect(stageSeparation).toBe(meco + 1);
+    expect(upperStageIgnition).toBe(meco + DEFAULT_ASCENT_GUIDANCE.stageCoast);
+    expect(fairingJettison).toBeGreaterThan(upperStageIgnition);
+    expect(seco).toBeGreaterThan(fairingJettison ?? Infinity);
+  });
+
+  it('ends on a coasting sample after second stage cutoff', () => {
+    expect(last.time).toBeGreaterThan(events.seco);
+    expect(last.stage).toBe(-1);
+    expect(last.throttle).toBe(0);
+  });
+
+  it('burns the tanks down in order', () => {
+    const atMeco = sampleAscent(profile, events.meco + 0.5);
+    expect(atMeco.propellant[0]).toBe(0);
+    expect(atMeco.propellant[1]).toBe(0);
+    expect(atMeco.propellant[2]).toBeGreaterThan(0);
+  });
+
+  it('has no booster separation without boosters', () => {
+    const { boosters, ...core } = DEFAULT_ASCENT_VEHICLE;
+    expect(boosters).toBeDefined();
+    const { events: coreEvents, samples: coreSamples } = simulateAscent(core);
+    expect(coreEvents.boosterSeparation).toBeNull();
+    expect(coreSamples[0].propellant).toHaveLength(core.stages.length);
+  });
+});
+
+describe('propellantTanks', () => {
+  it('lists the boosters before the core stages', () => {
+    expect(propellantTanks(DEFAULT_ASCENT_VEHICLE).map(tank => tank.name)).toEqual(['Strap-on Booster', 'Stage 1', 'Stage 2']);
+    expect(propellantTanks({ ...DEFAULT_ASCENT_VEHICLE, boosters: undefined }).map(tank => tank.name)).toEqual(['Stage 1', 'Stage 2']);
+  });
+});
+
+describe('sampleAscent', () => {
+  const profile = simulateAscent();
+
+  it('rests on the pad before liftoff', () => {
+    const sample = sampleAscent(profile, -5);
+    expect(sample.acceleration).toBe(G0);
+    expect(sample.throttle).toBe(0);
+    expect(sample.altitude).toBe(0);
+  });
+
+  it('interpolates between samples', () => {
+    const [a, b] = [profile.samples[200], profile.samples[201]];
+    const sample = sampleAscent(profile, (a.time + b.time) / 2);
+    expect(sample.altitude).toBeCloseTo((a.altitude + b.altitude) / 2, 6);
+    expect(sample.velocity).toBeCloseTo((a.velocity + b.velocity) / 2, 6);
+  });
+
+  it('holds the final state after insertion', () => {
+    const last = profile.samples[profile.samples.length - 1];
+    expect(sampleAscent(profile, last.time + 1000).altitude).toBe(last.altitude);
+  });
+});
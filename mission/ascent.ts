@@ -0,0 +1,289 @@
+// Physics-based ascent model.
+// Integrates a planar flight over a spherical, non-rotating Earth: staged thrust with propellant mass flow,
+// drag in an exponential atmosphere, inverse-square gravity and a gravity turn followed by closed-loop
+// orbit insertion. The profile is precomputed once and then scrubbed by mission elapsed time.
+
+export const EARTH_RADIUS_M = 6371e3;
+export const EARTH_MU = 3.986004418e14; // m^3/s^2
+export const G0 = 9.80665;
+
+const SEA_LEVEL_DENSITY = 1.225; // kg/m^3
+const SEA_LEVEL_PRESSURE = 101325; // Pa
+const SCALE_HEIGHT = 8500; // m
+
+export interface StageSpec {
+  name: string;
+  dryMass: number; // kg
+  propellantMass: number; // kg
+  thrustSeaLevel: number; // N
+  thrustVacuum: number; // N
+  ispSeaLevel: number; // s
+  ispVacuum: number; // s
+  count?: number; // Identical units burning in parallel (strap-on boosters)
+}
+
+export interface AscentVehicle {
+  boosters?: StageSpec; // Strap-ons burning alongside the first stage
+  stages: StageSpec[]; // Core stages, fired in sequence
+  payloadMass: number;
+  fairingMass: number;
+  fairingJettisonAltitude: number; // m
+  dragCoefficient: number;
+  referenceArea: number; // m^2
+}
+
+export interface AscentGuidance {
+  pitchKickTime: number; // s, end of the vertical rise
+  pitchKickAngle: number; // deg from vertical
+  pitchKickDuration: number; // s
+  maxDynamicPressure: number; // Pa, throttle bucket limit for the first stage
+  minThrottle: number;
+  targetAltitude: number; // m, insertion altitude for the upper stage
+  stageCoast: number; // s between first-stage cutoff and upper-stage ignition
+}
+
+export interface AscentSample {
+  time: number; // s since liftoff
+  altitude: number; // m
+  velocity: number; // m/s, inertial
+  verticalVelocity: number; // m/s
+  acceleration: number; // m/s^2, sensed (thrust + drag)
+  downrange: number; // m along the surface
+  dynamicPressure: number; // Pa
+  flightPathAngle: number; // rad above the local horizontal
+  mass: number; // kg
+  throttle: number; // 0..1
+  stage: number; // Index of the burning core stage, -1 when coasting
+  propellant: number[]; // kg remaining: boosters (if any) first, then each core stage
+}
+
+export interface AscentEvents {
+  maxQ: number;
+  boosterSeparation: number | null;
+  meco: number;
+  stageSeparation: number;
+  upperStageIgnition: number;
+  fairingJettison: number | null;
+  seco: number;
+}
+
+export interface AscentProfile {
+  samples: AscentSample[];
+  sampleInterval: number;
+  events: AscentEvents;
+}
+
+export const DEFAULT_ASCENT_VEHICLE: AscentVehicle = {
+  boosters: {
+    name: 'Strap-on Booster', count: 2,
+    dryMass: 6000, propellantMass: 42000,
+    thrustSeaLevel: 1.1e6, thrustVacuum: 1.2e6, ispSeaLevel: 270, ispVacuum: 290,
+  },
+  stages: [
+    {
+      name: 'Stage 1',
+      dryMass: 22000, propellantMass: 260000,
+      thrustSeaLevel: 4.0e6, thrustVacuum: 4.4e6, ispSeaLevel: 282, ispVacuum: 311,
+    },
+    {
+      name: 'Stage 2',
+      dryMass: 4000, propellantMass: 90000,
+      thrustSeaLevel: 0.8e6, thrustVacuum: 0.93e6, ispSeaLevel: 300, ispVacuum: 348,
+    },
+  ],
+  payloadMass: 6000,
+  fairingMass: 1800,
+  fairingJettisonAltitude: 110e3,
+  dragCoefficient: 0.45,
+  referenceArea: 14,
+};
+
+export const DEFAULT_ASCENT_GUIDANCE: AscentGuidance = {
+  pitchKickTime: 12,
+  pitchKickAngle: 1.2,
+  pitchKickDuration: 8,
+  maxDynamicPressure: 32000,
+  minThrottle: 0.7,
+  targetAltitude: 200e3,
+  stageCoast: 3,
+};
+
+export const atmosphereDensity = (altitude: number) => SEA_LEVEL_DENSITY * Math.exp(-Math.max(0, altitude) / SCALE_HEIGHT);
+export const atmospherePressure = (altitude: number) => SEA_LEVEL_PRESSURE * Math.exp(-Math.max(0, altitude) / SCALE_HEIGHT);
+
+// Thrust and mass flow at the given ambient pressure, interpolated between sea level and vacuum
+const engineOutput = (spec: StageSpec, pressure: number, throttle: number) => {
+  const ambient = pressure / SEA_LEVEL_PRESSURE;
+  const count = spec.count ?? 1;
+  const thrust = (spec.thrustVacuum + (spec.thrustSeaLevel - spec.thrustVacuum) * ambient) * throttle * count;
+  const massFlow = (spec.thrustVacuum * throttle * count) / (spec.ispVacuum * G0);
+  return { thrust, massFlow };
+};
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// Tanks in `AscentSample.propellant` order: boosters (if any) first, then each core stage
+export const propellantTanks = (vehicle: AscentVehicle): StageSpec[] => [...(vehicle.boosters ? [vehicle.boosters] : []), ...vehicle.stages];
+
+export const simulateAscent = (
+  vehicle: AscentVehicle = DEFAULT_ASCENT_VEHICLE,
+  guidance: AscentGuidance = DEFAULT_ASCENT_GUIDANCE,
+  maxTime = 900,
+): AscentProfile => {
+  const dt = 0.05;
+  const sampleInterval = 0.5;
+  const stepsPerSample = Math.round(sampleInterval / dt);
+
+  // Propellant bookkeeping: boosters (if any) at index 0, then each core stage
+  const tanks = propellantTanks(vehicle);
+  const coreOffset = vehicle.boosters ? 1 : 0;
+  const propellant = tanks.map(t => t.propellantMass * (t.count ?? 1));
+  const attached = tanks.map(() => true);
+  let fairingAttached = vehicle.fairingMass > 0;
+
+  let stage = 0; // Core stage index
+  let coastUntil = -1;
+  let r = EARTH_RADIUS_M, theta = 0, vr = 0, vt = 0;
+
+  const events: AscentEvents = { maxQ: 0, boosterSeparation: null, meco: 0, stageSeparation: 0, upperStageIgnition: 0, fairingJettison: null, seco: 0 };
+  let peakQ = 0;
+  const samples: AscentSample[] = [];
+
+  const totalMass = () => {
+    let m = vehicle.payloadMass + (fairingAttached ? vehicle.fairingMass : 0);
+    tanks.forEach((t, i) => { if (attached[i]) m += t.dryMass * (t.count ?? 1) + propellant[i]; });
+    return m;
+  };
+
+  for (let step = 0; step * dt <= maxTime; step++) {
+    const time = step * dt;
+    const altitude = r - EARTH_RADIUS_M;
+    const speed = Math.hypot(vr, vt);
+    const density = atmosphereDensity(altitude);
+    const pressure = atmospherePressure(altitude);
+    const q = 0.5 * density * speed * speed;
+    const gamma = speed > 1 ? Math.atan2(vr, vt) : Math.PI / 2;
+    const mass = totalMass();
+    const gravity = EARTH_MU / (r * r);
+
+    // Throttle bucket through max-Q on the first stage only
+    let throttle = 1;
+    if (stage === 0 && q > guidance.maxDynamicPressure * 0.8) {
+      throttle = clamp(1 - (q - guidance.maxDynamicPressure * 0.8) / guidance.maxDynamicPressure, guidance.minThrottle, 1);
+    }
+    const burning = time >= coastUntil && stage < vehicle.stages.length;
+    if (!burning) throttle = 0;
+
+    let thrust = 0;
+    if (burning) {
+      const core = coreOffset + stage;
+      const out = engineOutput(tanks[core], pressure, throttle);
+      thrust += out.thrust;
+      propellant[core] -= out.massFlow * dt;
+      if (vehicle.boosters && attached[0] && propellant[0] > 0) {
+        const boost = engineOutput(vehicle.boosters, pressure, 1);
+        thrust += boost.thrust;
+        propellant[0] -= boost.massFlow * dt;
+      }
+    }
+
+    // Steering: vertical rise, pitch kick, gravity turn, then closed-loop insertion on the upper stage
+    let pitch = gamma;
+    if (time < guidance.pitchKickTime) {
+      pitch = Math.PI / 2;
+    } else if (time < guidance.pitchKickTime + guidance.pitchKickDuration) {
+      pitch = Math.PI / 2 - guidance.pitchKickAngle * Math.PI / 180;
+    } else if (stage > 0 && thrust > 0) {
+      const desiredVr = clamp((guidance.targetAltitude - altitude) / 60, -150, 400);
+      const requiredRadial = (desiredVr - vr) / 20 + gravity - (vt * vt) / r;
+      pitch = Math.asin(clamp(requiredRadial / (thrust / mass), -0.4, 0.9));
+    }
+
+    const thrustAccel = thrust / mass;
+    const dragAccel = speed > 0 ? (q * vehicle.dragCoefficient * vehicle.referenceArea) / mass : 0;
+    const ar = thrustAccel * Math.sin(pitch) - dragAccel * (speed > 0 ? vr / speed : 0);
+    const at = thrustAccel * Math.cos(pitch) - dragAccel * (speed > 0 ? vt / speed : 0);
+
+    if (q > peakQ) { peakQ = q; events.maxQ = time; }
+
+    if (step % stepsPerSample === 0) {
+      samples.push({
+        time,
+        altitude,
+        velocity: speed,
+        verticalVelocity: vr,
+        acceleration: Math.hypot(ar, at),
+        downrange: theta * EARTH_RADIUS_M,
+        dynamicPressure: q,
+        flightPathAngle: gamma,
+        mass,
+        throttle,
+        stage: burning ? stage : -1,
+        propellant: propellant.map(p => Math.max(0, p)),
+      });
+    }
+
+    // Ends on the first sample after cutoff, so the profile holds a coasting state (engines off, stage -1)
+    if (events.seco && step % stepsPerSample === 0) break;
+
+    // Semi-implicit Euler in polar coordinates
+    vr += (ar - gravity + (vt * vt) / r) * dt;
+    vt += (at - (vr * vt) / r) * dt;
+    if (r + vr * dt < EARTH_RADIUS_M) { vr = Math.max(0, vr); } // Held down on the pad until thrust exceeds weight
+    r += vr * dt;
+    theta += (vt / r) * dt;
+
+    // Staging and jettison events
+    if (vehicle.boosters && attached[0] && propellant[0] <= 0) {
+      attached[0] = false;
+      events.boosterSeparation = time;
+    }
+    if (fairingAttached && altitude > vehicle.fairingJettisonAltitude) {
+      fairingAttached = false;
+      events.fairingJettison = time;
+    }
+    if (burning) {
+      const core = coreOffset + stage;
+      const circular = Math.sqrt(EARTH_MU / r);
+      if (stage === vehicle.stages.length - 1 && altitude > guidance.targetAltitude * 0.9 && vt >= circular) {
+        events.seco = time;
+        stage = vehicle.stages.length;
+      } else if (propellant[core] <= 0) {
+        if (stage === 0) { events.meco = time; events.stageSeparation = time + 1; events.upperStageIgnition = time + guidance.stageCoast; }
+        if (stage === vehicle.stages.length - 1) events.seco = time;
+        attached[core] = stage === vehicle.stages.length - 1;
+        stage++;
+        coastUntil = time + guidance.stageCoast;
+      }
+    }
+  }
+
+  return { samples, sampleInterval, events };
+};
+
+// Interpolated state at mission elapsed time `time` (held at the final sample after insertion)
+export const sampleAscent = (profile: AscentProfile, time: number): AscentSample => {
+  const { samples, sampleInterval } = profile;
+  // Before liftoff the vehicle rests on the pad, feeling only the 1 g reaction
+  if (time <= 0) return { ...samples[0], acceleration: G0, throttle: 0 };
+  const f = clamp(time / sampleInterval, 0, samples.length - 1);
+  const i = Math.floor(f);
+  const a = samples[i];
+  const b = samples[Math.min(i + 1, samples.length - 1)];
+  const t = f - i;
+  const mix = (x: number, y: number) => x + (y - x) * t;
+  return {
+    time: Math.max(0, time),
+    altitude: mix(a.altitude, b.altitude),
+    velocity: mix(a.velocity, b.velocity),
+    verticalVelocity: mix(a.verticalVelocity, b.verticalVelocity),
+    acceleration: mix(a.acceleration, b.acceleration),
+    downrange: mix(a.downrange, b.downrange),
+    dynamicPressure: mix(a.dynamicPressure, b.dynamicPressure),
+    flightPathAngle: mix(a.flightPathAngle, b.flightPathAngle),
+    mass: mix(a.mass, b.mass),
+    throttle: a.throttle,
+    stage: a.stage,
+    propellant: a.propellant.map((p, k) => mix(p, b.propellant[k])),
+  };
+};
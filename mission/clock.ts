@@ -0,0 +1,77 @@
+// Mission playback clock.
+// Owns mission progress (0..1) independently of page scroll. The render loop advances it with `tick`,
+// while UI controls (transport bar, scroll input) play, pause and seek it.
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+export interface MissionClockState {
+  progress: number;
+  playing: boolean;
+  speed: number;
+  loop: boolean;
+}
+
+export interface MissionClock {
+  readonly duration: number; // Real seconds for a full playback at 1x
+  getState: () => MissionClockState;
+  tick: (deltaTime: number) => boolean; // True when looping playback wrapped back to the start
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  seek: (progress: number) => void;
+  setSpeed: (speed: number) => void;
+  setLoop: (loop: boolean) => void;
+  setDuration: (duration: number) => void; // Keeps the elapsed seconds, so growing the timeline doesn't jump playback
+  subscribe: (listener: (state: MissionClockState) => void) => () => void;
+}
+
+const clamp01 = (t: number) => Math.max(0, Math.min(1, t));
+
+export const createMissionClock = (initialDuration: number): MissionClock => {
+  let duration = initialDuration;
+  let state: MissionClockState = { progress: 0, playing: false, speed: 1, loop: false };
+  const listeners = new Set<(state: MissionClockState) => void>();
+
+  // Listeners hear about transport changes; per-frame progress is read with getState()
+  const update = (patch: Partial<MissionClockState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const play = () => update({ playing: true, progress: state.progress >= 1 ? 0 : state.progress });
+  const pause = () => update({ playing: false });
+
+  return {
+    get duration() { return duration; },
+    getState: () => state,
+    tick: (deltaTime) => {
+      if (!state.playing) return false;
+      const progress = state.progress + (deltaTime * state.speed) / duration;
+      if (progress < 1) {
+        state = { ...state, progress };
+      } else if (state.loop) {
+        state = { ...state, progress: progress % 1 };
+        return true;
+      } else {
+        update({ progress: 1, playing: false });
+      }
+      return false;
+    },
+    play,
+    pause,
+    toggle: () => (state.playing ? pause() : play()),
+    seek: (progress) => update({ progress: clamp01(progress) }),
+    setSpeed: (speed) => update({ speed: Math.max(PLAYBACK_SPEEDS[0], Math.min(PLAYBACK_SPEEDS[PLAYBACK_SPEEDS.length - 1], speed)) }),
+    setLoop: (loop) => update({ loop }),
+    setDuration: (next) => {
+      if (next === duration) return;
+      const progress = clamp01((state.progress * duration) / next);
+      duration = next;
+      update({ progress });
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
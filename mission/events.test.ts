@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { MissionData } from '../App';
+import { createMissionEventDetector } from './events';
+import { DEFAULT_MISSION_TIMELINE, NOMINAL_ASCENT_EVENTS, flightTimeAt, timelineForAscent } from './timeline';
+
+const timeline = timelineForAscent(DEFAULT_MISSION_TIMELINE, NOMINAL_ASCENT_EVENTS);
+
+const TELEMETRY: MissionData = {
+  phase: 'Gravity Turn',
+  missionTime: 0,
+  altitude: 0,
+  velocity: 0,
+  acceleration: 1,
+  downrange: 0,
+  dynamicPressure: 0,
+  maxQ: { time: 0, dynamicPressure: 0 },
+  throttle: 1,
+  propellant: [],
+  site: 'Cape Canaveral SLC-40',
+};
+
+// Progress at which the flight reaches `time` s after liftoff
+const progressAtFlightTime = (time: number) => {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (flightTimeAt(timeline, mid) < time) low = mid; else high = mid;
+  }
+  return high;
+};
+
+const STEPS = 1000;
+
+describe('createMissionEventDetector', () => {
+  it('reports nothing on the first call', () => {
+    const detector = createMissionEventDetector(NOMINAL_ASCENT_EVENTS);
+    expect(detector.detect(timeline, 0.9, TELEMETRY)).toEqual([]);
+  });
+
+  it('reports every event once, in mission order, when played through', () => {
+    const detector = createMissionEventDetector(NOMINAL_ASCENT_EVENTS);
+    const events = Array.from({ length: STEPS + 1 }, (_, i) => detector.detect(timeline, i / STEPS, TELEMETRY)).flat();
+    expect(events.every(event => event.direction === 'forward')).toBe(true);
+    expect(events.map(event => event.type)).toEqual(['ignition', 'liftoff', 'maxQ', 'boosterSeparation', 'meco', 'fairingSeparation', 'satelliteDeploy', 'seco', 'solarPanelDeploy']);
+  });
+
+  it('fires flown events when flight time reaches the ascent model', () => {
+    const detector = createMissionEventDetector(NOMINAL_ASCENT_EVENTS);
+    const meco = progressAtFlightTime(NOMINAL_ASCENT_EVENTS.meco);
+    detector.detect(timeline, meco - 1e-6, TELEMETRY);
+    expect(detector.detect(timeline, meco + 1e-6, TELEMETRY).map(event => event.type)).toEqual(['meco']);
+  });
+
+  it('skips events the flight does not have', () => {
+    const detector = createMissionEventDetector({ ...NOMINAL_ASCENT_EVENTS, boosterSeparation: null });
+    detector.detect(timeline, 0, TELEMETRY);
+    expect(detector.detect(timeline, 1, TELEMETRY).map(event => event.type)).not.toContain('boosterSeparation');
+  });
+
+  it('uncrosses later events first when scrubbed back', () => {
+    const detector = createMissionEventDetector(NOMINAL_ASCENT_EVENTS);
+    detector.detect(timeline, 1, TELEMETRY);
+    const events = detector.detect(timeline, progressAtFlightTime(NOMINAL_ASCENT_EVENTS.boosterSeparation ?? 0) - 1e-6, TELEMETRY);
+    expect(events.every(event => event.direction === 'reverse')).toBe(true);
+    expect(events.map(event => event.type)).toEqual(['solarPanelDeploy', 'seco', 'satelliteDeploy', 'fairingSeparation', 'meco', 'boosterSeparation']);
+  });
+
+  it('starts over after a reset, so a loop wrap is not a scrub back', () => {
+    const detector = createMissionEventDetector(NOMINAL_ASCENT_EVENTS);
+    detector.detect(timeline, 1, TELEMETRY);
+    detector.reset();
+    expect(detector.detect(timeline, 0, TELEMETRY)).toEqual([]);
+  });
+
+  it('starts over on a different timeline', () => {
+    const detector = createMissionEventDetector(NOMINAL_ASCENT_EVENTS);
+    detector.detect(timeline, 0, TELEMETRY);
+    expect(detector.detect(DEFAULT_MISSION_TIMELINE, 1, TELEMETRY)).toEqual([]);
+  });
+});
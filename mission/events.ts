@@ -0,0 +1,101 @@
+// Discrete mission events: ignition, liftoff, Max-Q, staging and payload milestones.
+// Each event is a condition on the mission state that becomes true at one point in the mission: flight time
+// passing the ascent model's event for everything the model flies, timeline cues for the payload milestones.
+// The detector compares successive frames and reports every crossing, forwards as the mission plays and in
+// reverse when it is scrubbed back, so each crossing is reported exactly once.
+
+import type { MissionData } from '../App';
+import type { AscentEvents } from './ascent';
+import { cueProgress, flightTimeAt } from './timeline';
+import type { MissionTimeline } from './timeline';
+
+export type MissionEventType =
+  | 'ignition'
+  | 'liftoff'
+  | 'maxQ'
+  | 'boosterSeparation'
+  | 'meco'
+  | 'fairingSeparation'
+  | 'satelliteDeploy'
+  | 'seco'
+  | 'solarPanelDeploy';
+
+export interface MissionEvent {
+  type: MissionEventType;
+  label: string;
+  direction: 'forward' | 'reverse'; // Reverse when scrubbing back across the event
+  timestamp: number; // ms since the Unix epoch, when it was detected
+  progress: number; // Mission progress (0..1) at detection
+  telemetry: MissionData; // Snapshot at detection
+}
+
+interface EventContext {
+  timeline: MissionTimeline;
+  progress: number;
+  flightTime: number; // s since liftoff
+  ascent: AscentEvents;
+}
+
+interface EventDefinition {
+  type: MissionEventType;
+  label: string;
+  reached: (context: EventContext) => boolean;
+}
+
+// The engines light at the start of the first phase that runs them
+const ignitionProgress = (timeline: MissionTimeline) => timeline.phases.find(phase => phase.exhaust !== 0)?.start ?? 0;
+
+// Reached once flight time passes the ascent event; never if the flight doesn't have it
+const afterAscentEvent = (key: keyof AscentEvents) => ({ flightTime, ascent }: EventContext) => {
+  const time = ascent[key];
+  return time !== null && flightTime >= time;
+};
+
+// In mission order
+export const MISSION_EVENTS: EventDefinition[] = [
+  { type: 'ignition', label: 'Ignition', reached: ({ timeline, progress }) => progress >= ignitionProgress(timeline) },
+  { type: 'liftoff', label: 'Liftoff', reached: ({ flightTime }) => flightTime > 0 },
+  { type: 'maxQ', label: 'Max-Q', reached: afterAscentEvent('maxQ') },
+  { type: 'boosterSeparation', label: 'Booster Separation', reached: afterAscentEvent('boosterSeparation') },
+  { type: 'meco', label: 'Main Engine Cutoff', reached: afterAscentEvent('meco') },
+  { type: 'fairingSeparation', label: 'Fairing Separation', reached: afterAscentEvent('fairingJettison') },
+  { type: 'satelliteDeploy', label: 'Satellite Deploy', reached: ({ timeline, progress }) => cueProgress(timeline, 'deploySatellite', progress) !== null },
+  { type: 'seco', label: 'Second Stage Cutoff', reached: afterAscentEvent('seco') },
+  { type: 'solarPanelDeploy', label: 'Solar Panel Deploy', reached: ({ timeline, progress }) => cueProgress(timeline, 'deploySolarPanels', progress) !== null },
+];
+
+export interface MissionEventDetector {
+  // Events crossed since the previous call, in the order they were crossed. The first call only records
+  // the state it starts from, so opening mid-mission doesn't replay everything before it
+  detect: (timeline: MissionTimeline, progress: number, telemetry: MissionData) => MissionEvent[];
+  reset: () => void; // Starts over from the next call, e.g. when looping playback wraps back to the start
+}
+
+export const createMissionEventDetector = (ascent: AscentEvents): MissionEventDetector => {
+  let previous: boolean[] | null = null;
+  let previousTimeline: MissionTimeline | null = null;
+
+  return {
+    detect: (timeline, progress, telemetry) => {
+      const context = { timeline, progress, flightTime: flightTimeAt(timeline, progress), ascent };
+      const reached = MISSION_EVENTS.map(definition => definition.reached(context));
+      // A different timeline maps progress to different moments, so it starts from its own state
+      const last = timeline === previousTimeline ? previous : null;
+      previous = reached;
+      previousTimeline = timeline;
+      if (!last) return [];
+
+      const timestamp = Date.now();
+      const crossed: MissionEvent[] = [];
+      MISSION_EVENTS.forEach(({ type, label }, i) => {
+        if (reached[i] !== last[i]) crossed.push({ type, label, direction: reached[i] ? 'forward' : 'reverse', timestamp, progress, telemetry });
+      });
+      // Scrubbing back uncrosses later events first
+      return crossed.length > 1 && crossed[0].direction === 'reverse' ? crossed.reverse() : crossed;
+    },
+    reset: () => {
+      previous = null;
+      previousTimeline = null;
+    },
+  };
+};
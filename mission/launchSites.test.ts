@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LAUNCH_SITE, LAUNCH_SITES, clampAzimuth, findLaunchSite, insertionOrbit, launchInclination, planLaunch } from './launchSites';
+import { propagateOrbit } from './orbit';
+
+const DEG = Math.PI / 180;
+
+describe('findLaunchSite', () => {
+  it('finds sites by id and falls back to the default', () => {
+    expect(findLaunchSite('kourou').name).toBe('Kourou ELA-3');
+    expect(findLaunchSite('nowhere')).toBe(DEFAULT_LAUNCH_SITE);
+  });
+});
+
+describe('planLaunch', () => {
+  it('keeps the azimuth inside the range corridor', () => {
+    const site = findLaunchSite('baikonur');
+    expect(clampAzimuth(site, 10)).toBe(35);
+    expect(clampAzimuth(site, 50)).toBe(50);
+    expect(clampAzimuth(site, 90)).toBe(65);
+    expect(planLaunch('baikonur', Number.NaN).azimuth).toBe(site.defaultAzimuth);
+  });
+});
+
+describe('launchInclination', () => {
+  it('launching due east gives the site latitude', () => {
+    LAUNCH_SITES.forEach(site => {
+      expect(launchInclination({ site, azimuth: 90 }) / DEG).toBeCloseTo(Math.abs(site.latitude), 9);
+    });
+  });
+
+  it('launching due south gives a polar orbit', () => {
+    expect(launchInclination(planLaunch('vandenberg', 180)) / DEG).toBeCloseTo(90, 9);
+  });
+});
+
+describe('insertionOrbit', () => {
+  it('inserts over the site', () => {
+    LAUNCH_SITES.forEach(site => {
+      const siteAngle = 1.1;
+      const plan = planLaunch(site.id);
+      const { position } = propagateOrbit(insertionOrbit(plan, siteAngle), 0);
+      const radius = Math.hypot(...position);
+      expect(Math.asin(position[2] / radius) / DEG, site.id).toBeCloseTo(site.latitude, 6);
+      expect(Math.atan2(position[1], position[0]), site.id).toBeCloseTo(siteAngle, 6);
+    });
+  });
+
+  it('heads north or south with the launch azimuth', () => {
+    const north = propagateOrbit(insertionOrbit(planLaunch('canaveral', 45), 0), 0);
+    const south = propagateOrbit(insertionOrbit(planLaunch('vandenberg', 190), 0), 0);
+    expect(north.velocity[2]).toBeGreaterThan(0);
+    expect(south.velocity[2]).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,126 @@
+// Launch site catalogue: where each pad sits on the globe and which flight azimuths its range allows.
+// A launch flown due `azimuth` from latitude `latitude` reaches an orbit with cos i = cos(latitude) sin(azimuth),
+// so the plane of the satellite's orbit follows from the chosen site and azimuth.
+
+import { DEFAULT_ORBIT } from './orbit';
+import type { OrbitalElements } from './orbit';
+
+export interface LaunchSiteSpec {
+  id: string;
+  name: string;
+  location: string;
+  latitude: number; // deg, north positive
+  longitude: number; // deg, east positive
+  azimuths: [number, number]; // deg clockwise from north, the range safety corridor
+  defaultAzimuth: number; // deg
+}
+
+export interface LaunchPlan {
+  site: LaunchSiteSpec;
+  azimuth: number; // deg clockwise from north
+}
+
+const DEG = Math.PI / 180;
+
+export const LAUNCH_SITES: LaunchSiteSpec[] = [
+  {
+    id: 'canaveral',
+    name: 'Cape Canaveral SLC-40',
+    location: 'Florida, USA',
+    latitude: 28.562,
+    longitude: -80.577,
+    azimuths: [35, 120],
+    defaultAzimuth: 90,
+  },
+  {
+    id: 'kourou',
+    name: 'Kourou ELA-3',
+    location: 'French Guiana',
+    latitude: 5.239,
+    longitude: -52.768,
+    azimuths: [-10.5, 93.5],
+    defaultAzimuth: 90,
+  },
+  {
+    id: 'baikonur',
+    name: 'Baikonur Site 1',
+    location: 'Kazakhstan',
+    latitude: 45.965,
+    longitude: 63.305,
+    azimuths: [35, 65],
+    defaultAzimuth: 63,
+  },
+  {
+    id: 'vandenberg',
+    name: 'Vandenberg SLC-4E',
+    location: 'California, USA',
+    latitude: 34.632,
+    longitude: -120.611,
+    azimuths: [147, 201],
+    defaultAzimuth: 180,
+  },
+  {
+    id: 'sriharikota',
+    name: 'Satish Dhawan SLP',
+    location: 'Sriharikota, India',
+    latitude: 13.72,
+    longitude: 80.23,
+    azimuths: [100, 140],
+    defaultAzimuth: 102,
+  },
+  {
+    id: 'tanegashima',
+    name: 'Tanegashima Yoshinobu',
+    location: 'Kagoshima, Japan',
+    latitude: 30.401,
+    longitude: 130.975,
+    azimuths: [90, 120],
+    defaultAzimuth: 100,
+  },
+  {
+    id: 'mahia',
+    name: 'Mahia LC-1',
+    location: 'New Zealand',
+    latitude: -39.262,
+    longitude: 177.865,
+    azimuths: [40, 180],
+    defaultAzimuth: 90,
+  },
+];
+
+export const DEFAULT_LAUNCH_SITE = LAUNCH_SITES[0];
+
+// Site by id, e.g. from `?site=kourou`; unknown ids fall back to the default
+export const findLaunchSite = (id: string) => LAUNCH_SITES.find(site => site.id === id) ?? DEFAULT_LAUNCH_SITE;
+
+// Keeps an azimuth inside the site's corridor; anything unusable becomes the site's default
+export const clampAzimuth = (site: LaunchSiteSpec, azimuth: number) =>
+  Number.isFinite(azimuth) ? Math.max(site.azimuths[0], Math.min(site.azimuths[1], azimuth)) : site.defaultAzimuth;
+
+export const planLaunch = (siteId: string, azimuth = NaN): LaunchPlan => {
+  const site = findLaunchSite(siteId);
+  return { site, azimuth: clampAzimuth(site, azimuth) };
+};
+
+// rad
+export const launchInclination = ({ site, azimuth }: LaunchPlan) =>
+  Math.acos(Math.max(-1, Math.min(1, Math.cos(site.latitude * DEG) * Math.sin(azimuth * DEG))));
+
+// `base` re-planed so that the insertion point (true anomaly 0) lies over the site, crossing it on the
+// launch heading. `siteAngle` is the site's angle from the ECI x axis at insertion, in rad.
+export const insertionOrbit = (plan: LaunchPlan, siteAngle: number, base: OrbitalElements = DEFAULT_ORBIT): OrbitalElements => {
+  const inclination = launchInclination(plan);
+  const latitude = plan.site.latitude * DEG;
+  // Argument of latitude at the site: on the ascending half of the orbit when heading north
+  const sinInclination = Math.sin(inclination);
+  const rise = sinInclination < 1e-6 ? 0 : Math.asin(Math.max(-1, Math.min(1, Math.sin(latitude) / sinInclination)));
+  const argumentOfLatitude = Math.cos(plan.azimuth * DEG) >= 0 ? rise : Math.PI - rise;
+  const nodeToSite = Math.atan2(Math.cos(inclination) * Math.sin(argumentOfLatitude), Math.cos(argumentOfLatitude));
+  return {
+    ...base,
+    inclination,
+    raan: siteAngle - nodeToSite,
+    argumentOfPeriapsis: argumentOfLatitude,
+    trueAnomaly: 0,
+  };
+};
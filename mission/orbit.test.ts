@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ORBIT, EARTH_MU_KM, EARTH_RADIUS_KM, apoapsisAltitude, eciToScene, meanToTrue, orbitalPeriod, periapsisAltitude, propagateOrbit, solveKepler } from './orbit';
+
+describe('orbit elements', () => {
+  it('puts the default orbit at 200 by 1,200 km', () => {
+    expect(periapsisAltitude(DEFAULT_ORBIT)).toBeCloseTo(200, 6);
+    expect(apoapsisAltitude(DEFAULT_ORBIT)).toBeCloseTo(1200, 6);
+  });
+
+  it('gives a low orbit a period of about 90 minutes', () => {
+    const period = orbitalPeriod({ ...DEFAULT_ORBIT, semiMajorAxis: EARTH_RADIUS_KM + 200, eccentricity: 0 });
+    expect(period / 60).toBeCloseTo(88.4, 0);
+  });
+});
+
+describe('solveKepler', () => {
+  it('solves the equation for any eccentricity', () => {
+    [0, 0.1, 0.5, 0.9, 0.99].forEach(e => {
+      [0.1, 1, 3, 5, 6.2].forEach(M => {
+        const E = solveKepler(M, e);
+        expect(E - e * Math.sin(E)).toBeCloseTo(M, 9);
+      });
+    });
+  });
+
+  it('is the identity on a circle', () => {
+    expect(meanToTrue(1.234, 0)).toBeCloseTo(1.234, 12);
+  });
+});
+
+describe('propagateOrbit', () => {
+  it('starts at periapsis and reaches apoapsis half a period later', () => {
+    const period = orbitalPeriod(DEFAULT_ORBIT);
+    expect(propagateOrbit(DEFAULT_ORBIT, 0).radius).toBeCloseTo(EARTH_RADIUS_KM + 200, 6);
+    expect(propagateOrbit(DEFAULT_ORBIT, period / 2).radius).toBeCloseTo(EARTH_RADIUS_KM + 1200, 6);
+  });
+
+  it('returns to the same state after a full period', () => {
+    const start = propagateOrbit(DEFAULT_ORBIT, 100);
+    const after = propagateOrbit(DEFAULT_ORBIT, 100 + orbitalPeriod(DEFAULT_ORBIT));
+    start.position.forEach((value, i) => expect(after.position[i]).toBeCloseTo(value, 6));
+  });
+
+  it('conserves energy along the orbit', () => {
+    const energy = -EARTH_MU_KM / (2 * DEFAULT_ORBIT.semiMajorAxis);
+    [0, 600, 2000, 4000].forEach(dt => {
+      const { position, velocity } = propagateOrbit(DEFAULT_ORBIT, dt);
+      expect(Math.hypot(...velocity) ** 2 / 2 - EARTH_MU_KM / Math.hypot(...position)).toBeCloseTo(energy, 6);
+    });
+  });
+
+  it('stays in the orbit plane', () => {
+    const { position } = propagateOrbit(DEFAULT_ORBIT, 1234);
+    // Ascending node on the x axis, so the plane holds x and (0, cos i, sin i)
+    const normal = [0, -Math.sin(DEFAULT_ORBIT.inclination), Math.cos(DEFAULT_ORBIT.inclination)];
+    expect(position.reduce((sum, value, i) => sum + value * normal[i], 0)).toBeCloseTo(0, 6);
+  });
+});
+
+describe('eciToScene', () => {
+  it('scales to the globe and turns the north pole up', () => {
+    expect(eciToScene([0, 0, EARTH_RADIUS_KM], 50)).toEqual([0, 50, -0]);
+    expect(eciToScene([EARTH_RADIUS_KM, 0, 0], 50)).toEqual([50, 0, -0]);
+  });
+});
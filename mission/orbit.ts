@@ -0,0 +1,92 @@
+// Keplerian two-body orbit model for the deployed satellite.
+// Classical elements are propagated with Kepler's equation in an Earth-centred inertial frame (km, km/s),
+// then mapped into scene units where the globe has radius `earthRadius`.
+
+export const EARTH_RADIUS_KM = 6371;
+export const EARTH_MU_KM = 398600.4418; // km^3/s^2
+
+export interface OrbitalElements {
+  semiMajorAxis: number; // km
+  eccentricity: number;
+  inclination: number; // rad
+  raan: number; // rad, right ascension of the ascending node
+  argumentOfPeriapsis: number; // rad
+  trueAnomaly: number; // rad, at epoch
+}
+
+export interface OrbitState {
+  position: [number, number, number]; // km, ECI
+  velocity: [number, number, number]; // km/s, ECI
+  trueAnomaly: number;
+  radius: number; // km
+  speed: number; // km/s
+}
+
+// Default insertion: 200 km perigee from the ascent, raised to a 1,200 km apogee
+export const DEFAULT_ORBIT: OrbitalElements = {
+  semiMajorAxis: EARTH_RADIUS_KM + (200 + 1200) / 2,
+  eccentricity: 1000 / (2 * EARTH_RADIUS_KM + 1400),
+  inclination: Math.PI / 8,
+  raan: 0,
+  argumentOfPeriapsis: 0,
+  trueAnomaly: 0,
+};
+
+// Simulated seconds per real second while the satellite is orbiting
+export const ORBIT_TIME_WARP = 400;
+
+export const orbitalPeriod = (el: OrbitalElements) => 2 * Math.PI * Math.sqrt(Math.pow(el.semiMajorAxis, 3) / EARTH_MU_KM);
+export const apoapsisAltitude = (el: OrbitalElements) => el.semiMajorAxis * (1 + el.eccentricity) - EARTH_RADIUS_KM;
+export const periapsisAltitude = (el: OrbitalElements) => el.semiMajorAxis * (1 - el.eccentricity) - EARTH_RADIUS_KM;
+
+// Solves M = E - e sin E for the eccentric anomaly (Newton-Raphson)
+export const solveKepler = (meanAnomaly: number, e: number) => {
+  const M = ((meanAnomaly % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  let E = e < 0.8 ? M : Math.PI;
+  for (let i = 0; i < 30; i++) {
+    const delta = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-12) break;
+  }
+  return E;
+};
+
+const trueToMean = (nu: number, e: number) => {
+  const E = 2 * Math.atan2(Math.sqrt(1 - e) * Math.sin(nu / 2), Math.sqrt(1 + e) * Math.cos(nu / 2));
+  return E - e * Math.sin(E);
+};
+
+export const meanToTrue = (meanAnomaly: number, e: number) => {
+  const E = solveKepler(meanAnomaly, e);
+  return 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
+};
+
+// State `dt` seconds after the element epoch
+export const propagateOrbit = (el: OrbitalElements, dt: number): OrbitState => {
+  const { semiMajorAxis: a, eccentricity: e, inclination: i, raan: O, argumentOfPeriapsis: w } = el;
+  const n = Math.sqrt(EARTH_MU_KM / (a * a * a));
+  const nu = meanToTrue(trueToMean(el.trueAnomaly, e) + n * dt, e);
+  const r = (a * (1 - e * e)) / (1 + e * Math.cos(nu));
+
+  // Perifocal position and velocity
+  const p = a * (1 - e * e);
+  const h = Math.sqrt(EARTH_MU_KM * p);
+  const px = r * Math.cos(nu), py = r * Math.sin(nu);
+  const vx = -(EARTH_MU_KM / h) * Math.sin(nu), vy = (EARTH_MU_KM / h) * (e + Math.cos(nu));
+
+  // Rotate perifocal -> ECI by R3(-O) R1(-i) R3(-w)
+  const cO = Math.cos(O), sO = Math.sin(O), ci = Math.cos(i), si = Math.sin(i), cw = Math.cos(w), sw = Math.sin(w);
+  const r11 = cO * cw - sO * sw * ci, r12 = -cO * sw - sO * cw * ci;
+  const r21 = sO * cw + cO * sw * ci, r22 = -sO * sw + cO * cw * ci;
+  const r31 = sw * si, r32 = cw * si;
+  const position: [number, number, number] = [r11 * px + r12 * py, r21 * px + r22 * py, r31 * px + r32 * py];
+  const velocity: [number, number, number] = [r11 * vx + r12 * vy, r21 * vx + r22 * vy, r31 * vx + r32 * vy];
+
+  return { position, velocity, trueAnomaly: nu, radius: r, speed: Math.hypot(vx, vy) };
+};
+
+// ECI (z = north) to scene coordinates (y = up), scaled so that EARTH_RADIUS_KM maps to `earthRadius`
+export const eciToScene = (v: [number, number, number], earthRadius: number): [number, number, number] => {
+  const scale = earthRadius / EARTH_RADIUS_KM;
+  return [v[0] * scale, v[2] * scale, -v[1] * scale];
+};
@@ -0,0 +1,232 @@
+// Booster recovery model.
+// After separation one booster flies a return-to-launch-site profile over a flat Earth: a flip and
+// boostback burn that reverses its downrange velocity, an unpowered arc with grid-fin steering, a
+// re-entry burn to survive the dense atmosphere and a landing burn throttled to reach zero velocity at the pad.
+// Like the ascent, the profile is precomputed once and then scrubbed by mission elapsed time.
+
+import { G0, EARTH_RADIUS_M, atmosphereDensity, sampleAscent } from './ascent';
+import type { AscentProfile } from './ascent';
+
+export type RecoveryBurn = 'coast' | 'boostback' | 'entry' | 'landing' | 'landed';
+
+export interface RecoveryVehicle {
+  dryMass: number; // kg
+  propellantMass: number; // kg held back from the ascent for the return
+  thrust: number; // N, engines used for the recovery burns
+  isp: number; // s
+  minThrottle: number;
+  dragCoefficient: number;
+  referenceArea: number; // m^2
+  finAuthority: number; // m/s^2 of lateral steering from the grid fins per kPa of dynamic pressure
+}
+
+export interface RecoveryGuidance {
+  flipDuration: number; // s between separation and boostback ignition
+  boostbackAim: number; // m, downrange of the drag-free impact point that ends the boostback
+  entryAltitude: number; // m
+  entrySpeed: number; // m/s, re-entry burn ends below this speed
+  landingMargin: number; // Fraction of full deceleration at which the landing burn lights
+}
+
+export interface RecoverySample {
+  time: number; // s since liftoff
+  altitude: number; // m
+  downrange: number; // m from the landing pad
+  verticalVelocity: number; // m/s
+  horizontalVelocity: number; // m/s
+  pitch: number; // rad of the body axis from vertical, positive towards +downrange
+  throttle: number; // 0..1
+  burn: RecoveryBurn;
+  propellant: number; // kg
+}
+
+export interface RecoveryEvents {
+  separation: number;
+  boostbackStart: number;
+  boostbackEnd: number;
+  apogee: number;
+  entryStart: number;
+  entryEnd: number;
+  landingStart: number;
+  touchdown: number;
+}
+
+export interface RecoveryProfile {
+  samples: RecoverySample[];
+  sampleInterval: number;
+  events: RecoveryEvents;
+}
+
+export const DEFAULT_RECOVERY_VEHICLE: RecoveryVehicle = {
+  dryMass: 6000,
+  propellantMass: 6500,
+  thrust: 3.0e5,
+  isp: 290,
+  minThrottle: 0.25,
+  dragCoefficient: 0.8,
+  referenceArea: 3.8,
+  finAuthority: 0.4,
+};
+
+export const DEFAULT_RECOVERY_GUIDANCE: RecoveryGuidance = {
+  flipDuration: 4,
+  boostbackAim: -2500,
+  entryAltitude: 38e3,
+  entrySpeed: 320,
+  landingMargin: 0.8,
+};
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// Downrange of the drag-free impact point from the current state
+const ballisticImpact = (x: number, h: number, vx: number, vy: number) => {
+  const fallTime = (vy + Math.sqrt(vy * vy + 2 * G0 * Math.max(0, h))) / G0;
+  return x + vx * fallTime;
+};
+
+export const simulateRecovery = (
+  ascent: AscentProfile,
+  vehicle: RecoveryVehicle = DEFAULT_RECOVERY_VEHICLE,
+  guidance: RecoveryGuidance = DEFAULT_RECOVERY_GUIDANCE,
+  maxTime = 900,
+): RecoveryProfile | null => {
+  const separation = ascent.events.boosterSeparation;
+  if (separation === null) return null;
+  const dt = 0.05;
+  const sampleInterval = 0.5;
+  const stepsPerSample = Math.round(sampleInterval / dt);
+
+  // The landing pad sits at the launch site, so downrange from the pad starts at the ascent's downrange
+  const start = sampleAscent(ascent, separation);
+  let h = start.altitude;
+  let x = start.downrange;
+  let vy = start.verticalVelocity;
+  let vx = Math.sqrt(Math.max(0, start.velocity ** 2 - vy ** 2));
+  let propellant = vehicle.propellantMass;
+  let burn: RecoveryBurn = 'coast';
+
+  const events: RecoveryEvents = {
+    separation, boostbackStart: 0, boostbackEnd: 0, apogee: 0, entryStart: 0, entryEnd: 0, landingStart: 0, touchdown: 0,
+  };
+  const samples: RecoverySample[] = [];
+  const boostbackPitch = -Math.atan2(1, 0.1); // Engines towards the launch site, nose slightly up
+  let lastPitch = 0;
+  let time = separation;
+
+  for (let step = 0; time <= separation + maxTime; step++) {
+    time = separation + step * dt;
+    const mass = vehicle.dryMass + propellant;
+    const gravity = G0 * (EARTH_RADIUS_M / (EARTH_RADIUS_M + h)) ** 2;
+    const speed = Math.hypot(vx, vy);
+    const q = 0.5 * atmosphereDensity(h) * speed * speed;
+    const maxDecel = vehicle.thrust / mass - gravity;
+
+    // Burn sequencing
+    if (burn === 'coast' && !events.boostbackStart && time >= separation + guidance.flipDuration) {
+      burn = 'boostback';
+      events.boostbackStart = time;
+    } else if (burn === 'boostback' && (ballisticImpact(x, h, vx, vy) <= guidance.boostbackAim || propellant <= 0)) {
+      burn = 'coast';
+      events.boostbackEnd = time;
+    } else if (burn === 'coast' && events.boostbackEnd && !events.entryStart && vy < 0 && h < guidance.entryAltitude) {
+      burn = 'entry';
+      events.entryStart = time;
+    } else if (burn === 'entry' && (speed < guidance.entrySpeed || propellant <= 0)) {
+      burn = 'coast';
+      events.entryEnd = time;
+    } else if (burn === 'coast' && events.entryEnd && (vy * vy) / (2 * Math.max(1, h)) >= maxDecel * guidance.landingMargin) {
+      burn = 'landing';
+      events.landingStart = time;
+    }
+
+    // Throttle and thrust direction for the active burn
+    let throttle = 0;
+    let ax = 0;
+    let ay = 0;
+    let pitch = burn === 'landed' ? 0 : Math.atan2(-vx, -vy); // Unpowered: falls engines first, nose away from the airflow
+    if (burn === 'boostback') {
+      throttle = 1;
+      pitch = boostbackPitch;
+    } else if (burn === 'entry') {
+      throttle = 1;
+    } else if (burn === 'landing') {
+      // Deceleration that brings the vertical speed to zero exactly at the pad, plus a lateral correction
+      const required = (vy * vy) / (2 * Math.max(0.5, h)) + gravity;
+      const lateral = clamp((-x / Math.max(1, h / Math.max(1, -vy)) - vx) * 0.8, -0.3 * required, 0.3 * required);
+      throttle = clamp((Math.hypot(required, lateral) * mass) / vehicle.thrust, vehicle.minThrottle, 1);
+      pitch = Math.atan2(lateral, required);
+    } else if (burn === 'coast' && !events.boostbackStart) {
+      // Flip manoeuvre: swing from prograde to the boostback attitude
+      const prograde = Math.atan2(vx, vy);
+      pitch = prograde + (boostbackPitch - prograde) * clamp((time - separation) / guidance.flipDuration, 0, 1);
+    }
+    if (throttle > 0 && propellant > 0) {
+      const accel = (vehicle.thrust * throttle) / mass;
+      ax = Math.sin(pitch) * accel;
+      ay = Math.cos(pitch) * accel;
+      propellant = Math.max(0, propellant - ((vehicle.thrust * throttle) / (vehicle.isp * G0)) * dt);
+    } else {
+      throttle = 0;
+    }
+
+    // Grid fins steer the unpowered descent towards the pad
+    if (burn === 'coast' && events.boostbackEnd && vy < 0) {
+      const desiredVx = -x / Math.max(1, h / -vy);
+      ax += clamp(desiredVx - vx, -1, 1) * vehicle.finAuthority * (q / 1000);
+    }
+
+    const dragAccel = speed > 0 ? (q * vehicle.dragCoefficient * vehicle.referenceArea) / mass : 0;
+    if (speed > 0) {
+      ax -= dragAccel * (vx / speed);
+      ay -= dragAccel * (vy / speed);
+    }
+
+    // Unwrapped so that interpolating between samples turns the short way round
+    pitch = lastPitch + Math.atan2(Math.sin(pitch - lastPitch), Math.cos(pitch - lastPitch));
+    lastPitch = pitch;
+
+    if (step % stepsPerSample === 0) {
+      samples.push({ time, altitude: h, downrange: x, verticalVelocity: vy, horizontalVelocity: vx, pitch, throttle, burn, propellant });
+    }
+
+    if (burn === 'landed') break;
+
+    vy += (ay - gravity) * dt;
+    vx += ax * dt;
+    h += vy * dt;
+    x += vx * dt;
+    if (!events.apogee && vy < 0) events.apogee = time;
+
+    if (h <= 0 || (burn === 'landing' && vy >= 0)) {
+      h = Math.max(0, h);
+      vx = 0;
+      vy = 0;
+      burn = 'landed';
+      events.touchdown = time;
+    }
+  }
+
+  return { samples, sampleInterval, events };
+};
+
+// Interpolated state at mission elapsed time `time`, held at separation before and on the pad after
+export const sampleRecovery = (profile: RecoveryProfile, time: number): RecoverySample => {
+  const { samples, sampleInterval, events } = profile;
+  const f = clamp((time - events.separation) / sampleInterval, 0, samples.length - 1);
+  const i = Math.floor(f);
+  const a = samples[i];
+  const b = samples[Math.min(i + 1, samples.length - 1)];
+  const t = f - i;
+  const mix = (p: number, q: number) => p + (q - p) * t;
+  return {
+    time: Math.max(events.separation, time),
+    altitude: mix(a.altitude, b.altitude),
+    downrange: mix(a.downrange, b.downrange),
+    verticalVelocity: mix(a.verticalVelocity, b.verticalVelocity),
+    horizontalVelocity: mix(a.horizontalVelocity, b.horizontalVelocity),
+    pitch: mix(a.pitch, b.pitch),
+    throttle: a.throttle,
+    burn: a.burn,
+    propellant: mix(a.propellant, b.propellant),
+  };
+};
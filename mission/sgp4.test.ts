@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createSgp4, gmst, minutesSinceEpoch, propagateSgp4 } from './sgp4';
+import { parseTle } from './tle';
+
+// Vanguard 1 (NORAD 5), the first verification case in Vallado et al.
+const VANGUARD = [
+  '1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753',
+  '2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667',
+].join('\n');
+
+describe('propagateSgp4', () => {
+  const record = createSgp4(parseTle(VANGUARD));
+
+  it('treats the case as near-Earth', () => {
+    expect(record.deepSpace).toBe(false);
+  });
+
+  it('flags orbits of 225 minutes or longer as deep space', () => {
+    const tle = parseTle(VANGUARD);
+    expect(createSgp4({ ...tle, meanMotion: 1440 / 230 }).deepSpace).toBe(true); // Just past the limit
+    expect(createSgp4({ ...tle, meanMotion: 1.0027 }).deepSpace).toBe(true); // Geostationary
+  });
+
+  it('matches the reference state at epoch', () => {
+    const state = propagateSgp4(record, 0);
+    expect(state).not.toBeNull();
+    const reference = { position: [7022.46529266, -1400.08296755, 0.03995155], velocity: [1.893841015, 6.405893759, 4.534807250] };
+    reference.position.forEach((value, i) => expect(state?.position[i]).toBeCloseTo(value, 2));
+    reference.velocity.forEach((value, i) => expect(state?.velocity[i]).toBeCloseTo(value, 5));
+  });
+
+  it('matches the reference state six hours later', () => {
+    const state = propagateSgp4(record, 360);
+    const reference = [-7154.03120202, -3783.17682504, -3536.19412294];
+    reference.forEach((value, i) => expect(state?.position[i]).toBeCloseTo(value, 1));
+  });
+});
+
+describe('gmst', () => {
+  it('is 280.46 degrees at the J2000 epoch', () => {
+    expect((gmst(new Date(Date.UTC(2000, 0, 1, 12))) * 180) / Math.PI).toBeCloseTo(280.46061837, 4);
+  });
+});
+
+describe('minutesSinceEpoch', () => {
+  it('counts minutes from the element epoch', () => {
+    const record = createSgp4(parseTle(VANGUARD));
+    expect(minutesSinceEpoch(record, new Date(record.epoch.getTime() + 90 * 60000))).toBeCloseTo(90, 9);
+  });
+});
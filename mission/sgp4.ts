@@ -0,0 +1,251 @@
+// SGP4 propagator (near-Earth model, WGS-72 constants) after Vallado et al., "Revisiting Spacetrack Report #3".
+// Positions are in the TEME frame, which is close enough to ECI for display purposes.
+// Deep-space orbits (period >= 225 min) need the SDP4 lunar-solar terms, which are not implemented here;
+// such records are flagged `deepSpace` and callers must not propagate them.
+
+import type { Tle } from './tle';
+
+const RADIUS_KM = 6378.135;
+const MU = 398600.8;
+const XKE = 60 / Math.sqrt((RADIUS_KM * RADIUS_KM * RADIUS_KM) / MU);
+const J2 = 0.001082616;
+const J3 = -0.00000253881;
+const J4 = -0.00000165597;
+const J3OJ2 = J3 / J2;
+const X2O3 = 2 / 3;
+const TWO_PI = Math.PI * 2;
+const VKM_PER_SEC = (RADIUS_KM * XKE) / 60;
+
+export interface Sgp4Record {
+  epoch: Date;
+  deepSpace: boolean; // Period of 225 min or more: outside this near-Earth model
+  isimp: boolean;
+  no: number; ecco: number; inclo: number; nodeo: number; argpo: number; mo: number; bstar: number;
+  ao: number; con41: number; x1mth2: number; x7thm1: number;
+  cc1: number; cc4: number; cc5: number; d2: number; d3: number; d4: number;
+  delmo: number; eta: number; sinmao: number; omgcof: number; xmcof: number;
+  mdot: number; argpdot: number; nodedot: number; nodecf: number;
+  t2cof: number; t3cof: number; t4cof: number; t5cof: number;
+  xlcof: number; aycof: number;
+}
+
+export interface Sgp4State {
+  position: [number, number, number]; // km, TEME
+  velocity: [number, number, number]; // km/s, TEME
+}
+
+export const createSgp4 = (tle: Tle): Sgp4Record => {
+  const { eccentricity: ecco, inclination: inclo, raan: nodeo, argumentOfPerigee: argpo, meanAnomaly: mo, bstar } = tle;
+  const noKozai = (tle.meanMotion * TWO_PI) / 1440; // rad/min
+
+  // Recover the Brouwer mean motion and semi-major axis from the Kozai mean motion
+  const cosio = Math.cos(inclo);
+  const cosio2 = cosio * cosio;
+  const omeosq = 1 - ecco * ecco;
+  const rteosq = Math.sqrt(omeosq);
+  const ak = Math.pow(XKE / noKozai, X2O3);
+  const d1 = (0.75 * J2 * (3 * cosio2 - 1)) / (rteosq * omeosq);
+  let del = d1 / (ak * ak);
+  const adel = ak * (1 - del * del - del * (1 / 3 + (134 * del * del) / 81));
+  del = d1 / (adel * adel);
+  const no = noKozai / (1 + del);
+  const ao = Math.pow(XKE / no, X2O3);
+  const sinio = Math.sin(inclo);
+  const po = ao * omeosq;
+  const con42 = 1 - 5 * cosio2;
+  const con41 = -con42 - cosio2 - cosio2;
+  const posq = po * po;
+  const rp = ao * (1 - ecco);
+
+  // Atmospheric drag parameters depend on perigee height
+  const ss = 78 / RADIUS_KM + 1;
+  const qzms2t = Math.pow((120 - 78) / RADIUS_KM, 4);
+  const isimp = rp < 220 / RADIUS_KM + 1;
+  let sfour = ss;
+  let qzms24 = qzms2t;
+  const perige = (rp - 1) * RADIUS_KM;
+  if (perige < 156) {
+    sfour = perige < 98 ? 20 : perige - 78;
+    qzms24 = Math.pow((120 - sfour) / RADIUS_KM, 4);
+    sfour = sfour / RADIUS_KM + 1;
+  }
+  const pinvsq = 1 / posq;
+  const tsi = 1 / (ao - sfour);
+  const eta = ao * ecco * tsi;
+  const etasq = eta * eta;
+  const eeta = ecco * eta;
+  const psisq = Math.abs(1 - etasq);
+  const coef = qzms24 * Math.pow(tsi, 4);
+  const coef1 = coef / Math.pow(psisq, 3.5);
+  const cc2 = coef1 * no * (ao * (1 + 1.5 * etasq + eeta * (4 + etasq)) +
+    ((0.375 * J2 * tsi) / psisq) * con41 * (8 + 3 * etasq * (8 + etasq)));
+  const cc1 = bstar * cc2;
+  const cc3 = ecco > 1e-4 ? (-2 * coef * tsi * J3OJ2 * no * sinio) / ecco : 0;
+  const x1mth2 = 1 - cosio2;
+  const cc4 = 2 * no * coef1 * ao * omeosq * (eta * (2 + 0.5 * etasq) + ecco * (0.5 + 2 * etasq) -
+    ((J2 * tsi) / (ao * psisq)) * (-3 * con41 * (1 - 2 * eeta + etasq * (1.5 - 0.5 * eeta)) +
+      0.75 * x1mth2 * (2 * etasq - eeta * (1 + etasq)) * Math.cos(2 * argpo)));
+  const cc5 = 2 * coef1 * ao * omeosq * (1 + 2.75 * (etasq + eeta) + eeta * etasq);
+
+  // Secular rates
+  const cosio4 = cosio2 * cosio2;
+  const temp1 = 1.5 * J2 * pinvsq * no;
+  const temp2 = 0.5 * temp1 * J2 * pinvsq;
+  const temp3 = -0.46875 * J4 * pinvsq * pinvsq * no;
+  const mdot = no + 0.5 * temp1 * rteosq * con41 + 0.0625 * temp2 * rteosq * (13 - 78 * cosio2 + 137 * cosio4);
+  const argpdot = -0.5 * temp1 * con42 + 0.0625 * temp2 * (7 - 114 * cosio2 + 395 * cosio4) +
+    temp3 * (3 - 36 * cosio2 + 49 * cosio4);
+  const xhdot1 = -temp1 * cosio;
+  const nodedot = xhdot1 + (0.5 * temp2 * (4 - 19 * cosio2) + 2 * temp3 * (3 - 7 * cosio2)) * cosio;
+  const omgcof = bstar * cc3 * Math.cos(argpo);
+  const xmcof = ecco > 1e-4 ? (-X2O3 * coef * bstar) / eeta : 0;
+  const nodecf = 3.5 * omeosq * xhdot1 * cc1;
+  const t2cof = 1.5 * cc1;
+  const xlcof = Math.abs(cosio + 1) > 1.5e-12
+    ? (-0.25 * J3OJ2 * sinio * (3 + 5 * cosio)) / (1 + cosio)
+    : (-0.25 * J3OJ2 * sinio * (3 + 5 * cosio)) / 1.5e-12;
+  const aycof = -0.5 * J3OJ2 * sinio;
+  const delmo = Math.pow(1 + eta * Math.cos(mo), 3);
+
+  let d2 = 0, d3 = 0, d4 = 0, t3cof = 0, t4cof = 0, t5cof = 0;
+  if (!isimp) {
+    const cc1sq = cc1 * cc1;
+    d2 = 4 * ao * tsi * cc1sq;
+    const temp = (d2 * tsi * cc1) / 3;
+    d3 = (17 * ao + sfour) * temp;
+    d4 = 0.5 * temp * ao * tsi * (221 * ao + 31 * sfour) * cc1;
+    t3cof = d2 + 2 * cc1sq;
+    t4cof = 0.25 * (3 * d3 + cc1 * (12 * d2 + 10 * cc1sq));
+    t5cof = 0.2 * (3 * d4 + 12 * cc1 * d3 + 6 * d2 * d2 + 15 * cc1sq * (2 * d2 + cc1sq));
+  }
+
+  return {
+    epoch: tle.epoch,
+    deepSpace: TWO_PI / no >= 225,
+    isimp,
+    no, ecco, inclo, nodeo, argpo, mo, bstar,
+    ao, con41, x1mth2, x7thm1: 7 * cosio2 - 1,
+    cc1, cc4, cc5, d2, d3, d4,
+    delmo, eta, sinmao: Math.sin(mo), omgcof, xmcof,
+    mdot, argpdot, nodedot, nodecf,
+    t2cof, t3cof, t4cof, t5cof,
+    xlcof, aycof,
+  };
+};
+
+const mod2pi = (x: number) => ((x % TWO_PI) + TWO_PI) % TWO_PI;
+
+// State `tsince` minutes after the element epoch, or null if the orbit has decayed or become invalid
+export const propagateSgp4 = (rec: Sgp4Record, tsince: number): Sgp4State | null => {
+  const t = tsince;
+  const t2 = t * t;
+  const xmdf = rec.mo + rec.mdot * t;
+  const argpdf = rec.argpo + rec.argpdot * t;
+  const nodedf = rec.nodeo + rec.nodedot * t;
+  let argpm = argpdf;
+  let mm = xmdf;
+  let nodem = nodedf + rec.nodecf * t2;
+  let tempa = 1 - rec.cc1 * t;
+  let tempe = rec.bstar * rec.cc4 * t;
+  let templ = rec.t2cof * t2;
+
+  if (!rec.isimp) {
+    const delomg = rec.omgcof * t;
+    const delm = rec.xmcof * (Math.pow(1 + rec.eta * Math.cos(xmdf), 3) - rec.delmo);
+    const temp = delomg + delm;
+    mm = xmdf + temp;
+    argpm = argpdf - temp;
+    const t3 = t2 * t;
+    const t4 = t3 * t;
+    tempa = tempa - rec.d2 * t2 - rec.d3 * t3 - rec.d4 * t4;
+    tempe = tempe + rec.bstar * rec.cc5 * (Math.sin(mm) - rec.sinmao);
+    templ = templ + rec.t3cof * t3 + t4 * (rec.t4cof + t * rec.t5cof);
+  }
+
+  const am = Math.pow(XKE / rec.no, X2O3) * tempa * tempa;
+  const nm = XKE / Math.pow(am, 1.5);
+  let em = rec.ecco - tempe;
+  if (em >= 1 || em < -0.001) return null;
+  if (em < 1e-6) em = 1e-6;
+  mm = mm + rec.no * templ;
+  const xlm = mod2pi(mm + argpm + nodem);
+  nodem = mod2pi(nodem);
+  argpm = mod2pi(argpm);
+  mm = mod2pi(xlm - argpm - nodem);
+
+  const sinip = Math.sin(rec.inclo);
+  const cosip = Math.cos(rec.inclo);
+
+  // Long-period periodics
+  const axnl = em * Math.cos(argpm);
+  let temp = 1 / (am * (1 - em * em));
+  const aynl = em * Math.sin(argpm) + temp * rec.aycof;
+  const xl = mm + argpm + nodem + temp * rec.xlcof * axnl;
+
+  // Solve Kepler's equation in the modified form
+  const u = mod2pi(xl - nodem);
+  let eo1 = u;
+  let tem5 = 9999.9;
+  let sineo1 = 0, coseo1 = 0;
+  for (let ktr = 1; Math.abs(tem5) >= 1e-12 && ktr <= 10; ktr++) {
+    sineo1 = Math.sin(eo1);
+    coseo1 = Math.cos(eo1);
+    tem5 = (u - aynl * coseo1 + axnl * sineo1 - eo1) / (1 - coseo1 * axnl - sineo1 * aynl);
+    if (Math.abs(tem5) >= 0.95) tem5 = tem5 > 0 ? 0.95 : -0.95;
+    eo1 += tem5;
+  }
+
+  // Short-period preliminary quantities
+  const ecose = axnl * coseo1 + aynl * sineo1;
+  const esine = axnl * sineo1 - aynl * coseo1;
+  const el2 = axnl * axnl + aynl * aynl;
+  const pl = am * (1 - el2);
+  if (pl < 0) return null;
+  const rl = am * (1 - ecose);
+  const rdotl = (Math.sqrt(am) * esine) / rl;
+  const rvdotl = Math.sqrt(pl) / rl;
+  const betal = Math.sqrt(1 - el2);
+  temp = esine / (1 + betal);
+  const sinu = (am / rl) * (sineo1 - aynl - axnl * temp);
+  const cosu = (am / rl) * (coseo1 - axnl + aynl * temp);
+  let su = Math.atan2(sinu, cosu);
+  const sin2u = (cosu + cosu) * sinu;
+  const cos2u = 1 - 2 * sinu * sinu;
+  temp = 1 / pl;
+  const temp1 = 0.5 * J2 * temp;
+  const temp2 = temp1 * temp;
+
+  // Update for short-period periodics
+  const mrt = rl * (1 - 1.5 * temp2 * betal * rec.con41) + 0.5 * temp1 * rec.x1mth2 * cos2u;
+  su = su - 0.25 * temp2 * rec.x7thm1 * sin2u;
+  const xnode = nodem + 1.5 * temp2 * cosip * sin2u;
+  const xinc = rec.inclo + 1.5 * temp2 * cosip * sinip * cos2u;
+  const mvt = rdotl - (nm * temp1 * rec.x1mth2 * sin2u) / XKE;
+  const rvdot = rvdotl + (nm * temp1 * (rec.x1mth2 * cos2u + 1.5 * rec.con41)) / XKE;
+  if (mrt < 1) return null;
+
+  // Orientation vectors
+  const sinsu = Math.sin(su), cossu = Math.cos(su);
+  const snod = Math.sin(xnode), cnod = Math.cos(xnode);
+  const sini = Math.sin(xinc), cosi = Math.cos(xinc);
+  const xmx = -snod * cosi, xmy = cnod * cosi;
+  const ux = xmx * sinsu + cnod * cossu, uy = xmy * sinsu + snod * cossu, uz = sini * sinsu;
+  const vx = xmx * cossu - cnod * sinsu, vy = xmy * cossu - snod * sinsu, vz = sini * cossu;
+
+  return {
+    position: [mrt * ux * RADIUS_KM, mrt * uy * RADIUS_KM, mrt * uz * RADIUS_KM],
+    velocity: [(mvt * ux + rvdot * vx) * VKM_PER_SEC, (mvt * uy + rvdot * vy) * VKM_PER_SEC, (mvt * uz + rvdot * vz) * VKM_PER_SEC],
+  };
+};
+
+// Greenwich mean sidereal time (rad) for a UTC instant, IAU-82 model
+export const gmst = (date: Date) => {
+  const jd = date.getTime() / 86400000 + 2440587.5;
+  const tut1 = (jd - 2451545) / 36525;
+  const seconds = -6.2e-6 * tut1 * tut1 * tut1 + 0.093104 * tut1 * tut1 +
+    (876600 * 3600 + 8640184.812866) * tut1 + 67310.54841;
+  return mod2pi((seconds * Math.PI) / 180 / 240);
+};
+
+// Minutes between the element epoch and a UTC instant
+export const minutesSinceEpoch = (rec: Sgp4Record, date: Date) => (date.getTime() - rec.epoch.getTime()) / 60000;
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { MissionData } from '../App';
+import { createTelemetryRecorder, parseRecording, recordingDuration, recordingToCsv, recordingToJson, sampleRecording } from './telemetry';
+import type { RecordedTimeline } from './telemetry';
+
+const TIMELINE: RecordedTimeline = { vehicle: 'medium', recoveryEpilogue: false, duration: 90 };
+
+const missionData = (altitude: number, extra: Partial<MissionData> = {}): MissionData => ({
+  phase: 'Gravity Turn',
+  missionTime: altitude,
+  altitude,
+  velocity: 1.5,
+  acceleration: 2,
+  downrange: 20,
+  dynamicPressure: 30,
+  maxQ: { time: 69.6, dynamicPressure: 32 },
+  throttle: 1,
+  propellant: [{ stage: 'Stage 1', remaining: 0.5 }],
+  site: 'Cape Canaveral SLC-40',
+  ...extra,
+});
+
+// Records one sample per altitude, half a second apart on the recorder's clock
+const recordSamples = (altitudes: number[]) => {
+  const now = vi.spyOn(performance, 'now').mockReturnValue(0);
+  const recorder = createTelemetryRecorder();
+  recorder.start(TIMELINE);
+  altitudes.forEach((altitude, i) => {
+    now.mockReturnValue(i * 500);
+    recorder.record(i, altitude, 'cinematic', missionData(altitude));
+  });
+  recorder.stop();
+  now.mockRestore();
+  return recorder;
+};
+
+describe('createTelemetryRecorder', () => {
+  it('records only while started and reports each change', () => {
+    const recorder = createTelemetryRecorder();
+    const states: Array<{ recording: boolean; count: number }> = [];
+    const unsubscribe = recorder.subscribe(state => states.push(state));
+    recorder.record(0, 0, 'follow', missionData(0));
+    recorder.start(TIMELINE);
+    recorder.record(1, 1, 'follow', missionData(1));
+    recorder.stop();
+    unsubscribe();
+    recorder.start(TIMELINE);
+    expect(states).toEqual([{ recording: true, count: 0 }, { recording: true, count: 1 }, { recording: false, count: 1 }]);
+    expect(recorder.getState()).toEqual({ recording: true, count: 0 });
+  });
+
+  it('keeps the timeline it was started with', () => {
+    const recording = recordSamples([0, 1, 2]).toRecording();
+    expect(recording.version).toBe(2);
+    expect(recording.timeline).toEqual(TIMELINE);
+    expect(recording.samples.map(sample => sample.elapsed)).toEqual([0, 0.5, 1]);
+  });
+});
+
+describe('recordingToCsv', () => {
+  it('flattens nested fields into dotted columns', () => {
+    const recording = recordSamples([10]).toRecording();
+    recording.samples.push({ ...recording.samples[0], elapsed: 1, data: missionData(20, { phase: 'Orbit, "stable"', orbit: { apoapsis: 1200, periapsis: 200, period: 100, inclination: 28.6 } }) });
+    const [header, first, second] = recordingToCsv(recording).split('\n');
+    const columns = header.split(',');
+    expect(columns.slice(0, 5)).toEqual(['elapsed', 'progress', 'flightTime', 'cameraAngle', 'phase']);
+    expect(columns).toContain('maxQ.time');
+    expect(columns).toContain('propellant.0.remaining');
+    expect(columns).toContain('orbit.apoapsis');
+    expect(first.endsWith(',,,,')).toBe(true); // No orbit yet
+    expect(second).toContain('"Orbit, ""stable"""');
+  });
+});
+
+describe('parseRecording', () => {
+  it('reads back a JSON export', () => {
+    const recording = recordSamples([0, 5, 10]).toRecording();
+    expect(parseRecording(recordingToJson(recording))).toEqual(recording);
+  });
+
+  it('sorts the samples by time', () => {
+    const recording = recordSamples([0, 5, 10]).toRecording();
+    const parsed = parseRecording(recordingToJson({ ...recording, samples: [...recording.samples].reverse() }));
+    expect(parsed.samples.map(sample => sample.elapsed)).toEqual([0, 0.5, 1]);
+  });
+
+  it('rejects files that are not recordings', () => {
+    const recording = recordSamples([0, 5]).toRecording();
+    expect(() => parseRecording('{')).toThrow('not valid JSON');
+    expect(() => parseRecording('null')).toThrow('Not a telemetry recording');
+    expect(() => parseRecording(JSON.stringify({ ...recording, version: 1 }))).toThrow('version 1 is not supported');
+    expect(() => parseRecording(JSON.stringify({ ...recording, timeline: undefined }))).toThrow('no timeline');
+    expect(() => parseRecording(JSON.stringify({ ...recording, samples: [] }))).toThrow('no samples');
+    const malformed = { ...recording, samples: [recording.samples[0], { ...recording.samples[1], cameraAngle: 'drone' }] };
+    expect(() => parseRecording(JSON.stringify(malformed))).toThrow('sample 2 is malformed');
+  });
+});
+
+describe('sampleRecording', () => {
+  const recording = recordSamples([0, 5, 10, 15]).toRecording();
+
+  it('spans the first to the last sample', () => {
+    expect(recordingDuration(recording)).toBe(1.5);
+  });
+
+  it('holds the latest sample at or before the replay time', () => {
+    expect(sampleRecording(recording, 0).data.altitude).toBe(0);
+    expect(sampleRecording(recording, 0.7).data.altitude).toBe(5);
+    expect(sampleRecording(recording, 1).data.altitude).toBe(10);
+    expect(sampleRecording(recording, 99).data.altitude).toBe(15);
+  });
+});
@@ -0,0 +1,162 @@
+// Telemetry recording: every HUD update of a run, kept with the progress, flight time and camera that produced it.
+// Recordings export as CSV (one flattened column per field) or JSON, and a JSON export loads back for replay.
+// A recording also names the timeline it was made against, since progress only means something on that timeline.
+
+import type { CameraAngle, MissionData } from '../App';
+
+export interface TelemetrySample {
+  elapsed: number; // s of wall-clock time since recording started
+  progress: number; // percent
+  flightTime: number; // s since liftoff
+  cameraAngle: CameraAngle;
+  data: MissionData;
+}
+
+// What the mission timeline was built from while recording
+export interface RecordedTimeline {
+  vehicle: string; // Vehicle preset id; the timeline follows that vehicle's ascent
+  recoveryEpilogue: boolean;
+  duration: number; // s for a full playback at 1x
+}
+
+export interface TelemetryRecording {
+  version: 2;
+  recordedAt: string; // ISO time the recording started
+  timeline: RecordedTimeline;
+  samples: TelemetrySample[];
+}
+
+export interface TelemetryRecorderState {
+  recording: boolean;
+  count: number; // Samples held
+}
+
+export interface TelemetryRecorder {
+  getState: () => TelemetryRecorderState;
+  subscribe: (listener: (state: TelemetryRecorderState) => void) => () => void; // Hears every change, samples included
+  start: (timeline: RecordedTimeline) => void; // Discards any earlier samples
+  stop: () => void;
+  record: (progress: number, flightTime: number, cameraAngle: CameraAngle, data: MissionData) => void; // Ignored while stopped
+  toRecording: () => TelemetryRecording;
+}
+
+const CAMERA_ANGLES: CameraAngle[] = ['cinematic', 'follow', 'wide'];
+
+export const createTelemetryRecorder = (): TelemetryRecorder => {
+  let recording = false;
+  let startedAt = 0;
+  let recordedAt = new Date();
+  let timeline: RecordedTimeline = { vehicle: '', recoveryEpilogue: false, duration: 0 };
+  let samples: TelemetrySample[] = [];
+  let state: TelemetryRecorderState = { recording, count: 0 };
+  const listeners = new Set<(state: TelemetryRecorderState) => void>();
+
+  const changed = () => {
+    state = { recording, count: samples.length };
+    listeners.forEach(listener => listener(state));
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    start: (recordedTimeline) => {
+      recording = true;
+      timeline = { ...recordedTimeline };
+      startedAt = performance.now();
+      recordedAt = new Date();
+      samples = [];
+      changed();
+    },
+    stop: () => {
+      recording = false;
+      changed();
+    },
+    record: (progress, flightTime, cameraAngle, data) => {
+      if (!recording) return;
+      samples.push({ elapsed: Math.round(performance.now() - startedAt) / 1000, progress, flightTime, cameraAngle, data });
+      changed();
+    },
+    toRecording: () => ({ version: 2, recordedAt: recordedAt.toISOString(), timeline: { ...timeline }, samples: [...samples] }),
+  };
+};
+
+export const recordingToJson = (recording: TelemetryRecording) => JSON.stringify(recording);
+
+// Nested fields become dotted columns (`orbit.apoapsis`, `propellant.0.remaining`); absent ones stay empty
+const flatten = (value: unknown, prefix: string, out: Map<string, string | number | boolean>) => {
+  if (value !== null && typeof value === 'object') {
+    Object.entries(value).forEach(([key, child]) => flatten(child, prefix ? `${prefix}.${key}` : key, out));
+  } else if (value !== undefined && value !== null) {
+    out.set(prefix, value as string | number | boolean);
+  }
+  return out;
+};
+
+const csvField = (value: string | number | boolean | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const recordingToCsv = ({ samples }: TelemetryRecording) => {
+  const rows = samples.map(({ elapsed, progress, flightTime, cameraAngle, data }) => flatten({ elapsed, progress, flightTime, cameraAngle, ...data }, '', new Map()));
+  const columns: string[] = [];
+  rows.forEach(row => row.forEach((_, key) => { if (!columns.includes(key)) columns.push(key); }));
+  return [columns.join(','), ...rows.map(row => columns.map(column => csvField(row.get(column))).join(','))].join('\n');
+};
+
+const NUMERIC_FIELDS: (keyof MissionData)[] = ['missionTime', 'altitude', 'velocity', 'acceleration', 'downrange', 'dynamicPressure', 'throttle'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => value !== null && typeof value === 'object';
+
+const isSample = (value: unknown): value is TelemetrySample => {
+  if (!isRecord(value)) return false;
+  if (!Number.isFinite(value.elapsed) || !Number.isFinite(value.progress) || !Number.isFinite(value.flightTime) || !CAMERA_ANGLES.includes(value.cameraAngle as CameraAngle)) return false;
+  const data = value.data;
+  return isRecord(data) && typeof data.phase === 'string' && typeof data.site === 'string' &&
+    NUMERIC_FIELDS.every(field => Number.isFinite(data[field])) &&
+    isRecord(data.maxQ) && Number.isFinite(data.maxQ.time) && Number.isFinite(data.maxQ.dynamicPressure) && Array.isArray(data.propellant);
+};
+
+// Reads a JSON export back; throws with a readable message if the file isn't one
+export const parseRecording = (text: string): TelemetryRecording => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Telemetry file is not valid JSON');
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.samples)) throw new Error('Not a telemetry recording');
+  if (parsed.version !== 2) throw new Error(`Telemetry recording version ${parsed.version} is not supported`);
+  const timeline = parsed.timeline;
+  if (!isRecord(timeline) || typeof timeline.vehicle !== 'string' || typeof timeline.recoveryEpilogue !== 'boolean' ||
+    typeof timeline.duration !== 'number' || !(timeline.duration > 0)) throw new Error('Telemetry recording has no timeline');
+  const entries: unknown[] = parsed.samples;
+  if (entries.length === 0) throw new Error('Telemetry recording has no samples');
+  const invalid = entries.findIndex(sample => !isSample(sample));
+  if (invalid !== -1) throw new Error(`Telemetry sample ${invalid + 1} is malformed`);
+  const samples = entries.filter(isSample).sort((a, b) => a.elapsed - b.elapsed);
+  return {
+    version: 2,
+    recordedAt: String(parsed.recordedAt ?? ''),
+    timeline: { vehicle: timeline.vehicle, recoveryEpilogue: timeline.recoveryEpilogue, duration: timeline.duration },
+    samples,
+  };
+};
+
+export const recordingDuration = ({ samples }: TelemetryRecording) => samples[samples.length - 1].elapsed - samples[0].elapsed;
+
+// Latest sample at `elapsed` s into the replay
+export const sampleRecording = ({ samples }: TelemetryRecording, elapsed: number): TelemetrySample => {
+  const target = samples[0].elapsed + elapsed;
+  let low = 0;
+  let high = samples.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (samples[mid].elapsed <= target) low = mid; else high = mid - 1;
+  }
+  return samples[low];
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { simulateAscent } from './ascent';
+import type { AscentEvents } from './ascent';
+import {
+  DEFAULT_MISSION_TIMELINE, NOMINAL_ASCENT_EVENTS, RECOVERY_EPILOGUE_DURATION,
+  countdownAt, cueProgress, flightTimeAt, phaseLabel, samplePhase, timelineForAscent, withRecoveryEpilogue,
+} from './timeline';
+import type { MissionTimeline, PhaseAction } from './timeline';
+
+const STEPS = 2000;
+const progressSteps = Array.from({ length: STEPS + 1 }, (_, i) => i / STEPS);
+
+// Flight time at which the cue first starts playing, scanning progress forwards
+const cueFlightTime = (timeline: MissionTimeline, action: PhaseAction) => {
+  const p = progressSteps.find(step => cueProgress(timeline, action, step) !== null);
+  return p === undefined ? null : flightTimeAt(timeline, p);
+};
+
+describe('DEFAULT_MISSION_TIMELINE', () => {
+  it('covers the whole playback with contiguous phases', () => {
+    const { phases } = DEFAULT_MISSION_TIMELINE;
+    expect(phases[0].start).toBe(0);
+    expect(phases[phases.length - 1].end).toBe(1);
+    phases.slice(1).forEach((phase, i) => expect(phase.start).toBeCloseTo(phases[i].end, 9));
+  });
+
+  it('never runs flight time backwards', () => {
+    const times = progressSteps.map(p => flightTimeAt(DEFAULT_MISSION_TIMELINE, p));
+    times.slice(1).forEach((time, i) => expect(time).toBeGreaterThanOrEqual(times[i] - 1e-9));
+  });
+
+  it('counts down on the pad and lifts off at zero', () => {
+    expect(countdownAt(DEFAULT_MISSION_TIMELINE, 0)).toBeGreaterThan(0);
+    expect(flightTimeAt(DEFAULT_MISSION_TIMELINE, 0)).toBe(0);
+    expect(countdownAt(DEFAULT_MISSION_TIMELINE, 1)).toBe(0);
+  });
+});
+
+describe('NOMINAL_ASCENT_EVENTS', () => {
+  it('matches the default vehicle as simulated', () => {
+    const { events } = simulateAscent();
+    (Object.keys(NOMINAL_ASCENT_EVENTS) as (keyof AscentEvents)[]).forEach(key => {
+      expect(events[key], key).toBeCloseTo(NOMINAL_ASCENT_EVENTS[key] ?? NaN, 1);
+    });
+  });
+});
+
+describe('timelineForAscent', () => {
+  it('leaves flight times alone for the nominal events', () => {
+    const timeline = timelineForAscent(DEFAULT_MISSION_TIMELINE, NOMINAL_ASCENT_EVENTS);
+    progressSteps.forEach(p => expect(flightTimeAt(timeline, p)).toBeCloseTo(flightTimeAt(DEFAULT_MISSION_TIMELINE, p), 6));
+  });
+
+  it('places event cues where the flight reaches the event', () => {
+    const events: AscentEvents = { ...NOMINAL_ASCENT_EVENTS, boosterSeparation: 117, meco: 215, stageSeparation: 216, upperStageIgnition: 218, fairingJettison: 230, seco: 499 };
+    const timeline = timelineForAscent(DEFAULT_MISSION_TIMELINE, events);
+    const times = progressSteps.map(p => flightTimeAt(timeline, p));
+    times.slice(1).forEach((time, i) => expect(time).toBeGreaterThanOrEqual(times[i] - 1e-9));
+
+    const cues: Array<[PhaseAction, number]> = [
+      ['separateBoosters', 117], ['separateStage', 216], ['igniteUpperStage', 218], ['separateFairing', 230], ['cutoffUpperStage', 499],
+    ];
+    cues.forEach(([action, time]) => {
+      const reached = cueFlightTime(timeline, action);
+      expect(reached, action).not.toBeNull();
+      // Within one progress step of the event
+      expect(Math.abs((reached ?? 0) - time), action).toBeLessThan(2);
+    });
+  });
+
+  it('drops the cues of events the flight does not have', () => {
+    const timeline = timelineForAscent(DEFAULT_MISSION_TIMELINE, { ...NOMINAL_ASCENT_EVENTS, boosterSeparation: null });
+    expect(progressSteps.every(p => cueProgress(timeline, 'separateBoosters', p) === null)).toBe(true);
+    expect(cueFlightTime(timeline, 'separateStage')).not.toBeNull();
+  });
+});
+
+describe('withRecoveryEpilogue', () => {
+  const timeline = withRecoveryEpilogue(DEFAULT_MISSION_TIMELINE);
+
+  it('appends the epilogue after the main mission', () => {
+    const mainPhases = DEFAULT_MISSION_TIMELINE.phases.length;
+    const share = DEFAULT_MISSION_TIMELINE.duration / timeline.duration;
+    expect(timeline.duration).toBe(DEFAULT_MISSION_TIMELINE.duration + RECOVERY_EPILOGUE_DURATION);
+    expect(timeline.phases[mainPhases - 1].end).toBeCloseTo(share, 9);
+    expect(timeline.phases[mainPhases].start).toBeCloseTo(share, 9);
+    expect(timeline.phases[timeline.phases.length - 1].end).toBeCloseTo(1, 9);
+  });
+
+  it('keeps the main mission playing as before, only faster', () => {
+    const share = DEFAULT_MISSION_TIMELINE.duration / timeline.duration;
+    [0.1, 0.4, 0.8].forEach(p => expect(flightTimeAt(timeline, p * share)).toBeCloseTo(flightTimeAt(DEFAULT_MISSION_TIMELINE, p), 6));
+  });
+});
+
+describe('cueProgress', () => {
+  it('is null before the cue, runs through it, and holds at 1 afterwards', () => {
+    const timeline = timelineForAscent(DEFAULT_MISSION_TIMELINE, NOMINAL_ASCENT_EVENTS);
+    const values = progressSteps.map(p => cueProgress(timeline, 'igniteUpperStage', p));
+    const first = values.findIndex(value => value !== null);
+    expect(first).toBeGreaterThan(0);
+    values.slice(first).forEach((value, i) => {
+      expect(value).not.toBeNull();
+      if (i > 0) expect(value).toBeGreaterThanOrEqual(values[first + i - 1] ?? 0);
+    });
+    expect(values[values.length - 1]).toBe(1);
+  });
+
+  it('completes at once when the cue has no length', () => {
+    const [phase] = DEFAULT_MISSION_TIMELINE.phases;
+    const timeline: MissionTimeline = { duration: 10, phases: [{ ...phase, start: 0, end: 1, easing: 'linear', cues: [{ action: 'orbit', at: 0.5, until: 0.5 }] }] };
+    expect(cueProgress(timeline, 'orbit', 0.4)).toBeNull();
+    expect(cueProgress(timeline, 'orbit', 0.6)).toBe(1);
+  });
+});
+
+describe('phaseLabel', () => {
+  it('switches to a cue label once the cue starts', () => {
+    const timeline = timelineForAscent(DEFAULT_MISSION_TIMELINE, NOMINAL_ASCENT_EVENTS);
+    const p = progressSteps.find(step => cueProgress(timeline, 'separateBoosters', step) !== null) ?? 1;
+    expect(phaseLabel(samplePhase(timeline, p))).toBe('Booster Separation');
+  });
+});
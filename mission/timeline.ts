@@ -0,0 +1,544 @@
+// Data-driven mission timeline.
+// Every phase of the launch is declared here once; ThreeScene (rocket, exhaust, visibility, camera)
+// and UIOverlay (countdown) both sample this definition instead of hardcoding progress thresholds.
+
+import type { AscentEvents } from './ascent';
+
+export type Vec3Tuple = [number, number, number];
+
+export type EasingName = 'linear' | 'easeInOutCubic' | 'easeInOutQuint';
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  easeInOutCubic: (t) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+  easeInOutQuint: (t) => t < 0.5 ? 16 * t * t * t * t * t : 1 - Math.pow(-2 * t + 2, 5) / 2,
+};
+
+// Piecewise-linear keyframes over phase progress (0..1). `easing` overrides the phase easing.
+export interface ScalarTrack {
+  keys: Array<[number, number]>;
+  easing?: EasingName;
+}
+export type Scalar = number | ScalarTrack;
+
+// Rocket heights are expressed relative to the ground launch site or the pad on top of the globe
+export interface AltitudeRef {
+  frame: 'ground' | 'pad';
+  offset: number;
+}
+
+// `true`/`false`, or the window of eased phase progress in which the object is shown
+export type Visibility = boolean | [number, number];
+
+export type CameraAnchor = 'world' | 'pad' | 'rocket' | 'satellite' | 'booster';
+
+export interface CameraKey {
+  at: number;
+  position?: Vec3Tuple; // Omitted when the track uses a sweep
+  lookAt: Vec3Tuple;
+  anchor?: CameraAnchor; // Overrides the track anchor for this key
+  easing?: EasingName; // Easing of the segment arriving at this key
+}
+
+// Elliptical camera path around the anchor: center + (cos(a) * rx, 0, sin(a) * rz)
+export interface CameraSweep {
+  center: Vec3Tuple;
+  radius: [number, number];
+  angle: [number, number]; // Swept across the (eased) phase
+  rate?: number; // Additional rad/s while the phase is active
+}
+
+export interface CameraTrack {
+  anchor: CameraAnchor;
+  keys: CameraKey[];
+  sweep?: CameraSweep;
+  smoothing: number; // Per-frame lerp factor towards the target
+  userAngles: boolean; // Whether the Follow/Wide camera options apply
+}
+
+export type PhaseAction =
+  | 'separateBoosters'
+  | 'separateStage'
+  | 'igniteUpperStage'
+  | 'cutoffUpperStage'
+  | 'separateFairing'
+  | 'deploySatellite'
+  | 'deploySolarPanels'
+  | 'orbit'
+  | 'deployLandingLegs';
+
+// A mechanism that plays out within a phase, between eased progress `at` and `until`
+export interface PhaseCue {
+  action: PhaseAction;
+  at?: number;
+  until?: number;
+  label?: string; // Replaces the phase label once the cue has started
+  event?: keyof AscentEvents; // Placed by timelineForAscent where the flight time reaches this event, in whichever phase that is
+  span?: number; // With `event`: s of flight time the cue plays over, in place of `until`
+}
+
+export interface MissionPhase {
+  id: string;
+  label: string;
+  start: number;
+  end: number;
+  easing: EasingName;
+  rocket: { from: AltitudeRef; to: AltitudeRef };
+  exhaust: Scalar; // First stage and boosters; the upper stage's engine follows its ignition and cutoff cues
+  visibility: { ground: Visibility; earth: Visibility; stars: Visibility; vehicle?: Visibility }; // Vehicle (rocket and payload) defaults to shown
+  flightTime: Scalar; // Seconds since liftoff, scrubbed through the ascent model
+  countdown?: Scalar; // Seconds remaining before liftoff
+  globeMorph?: Scalar; // 0 = flat launch site (default), 1 = launch site wrapped onto the globe
+  recoveryTime?: Scalar; // Seconds since liftoff on the booster recovery profile; the recovered booster only appears in phases that set it
+  subject: 'rocket' | 'satellite' | 'booster';
+  camera: CameraTrack;
+  cues?: PhaseCue[];
+}
+
+export interface MissionTimeline {
+  duration: number; // Real seconds for a full playback at 1x
+  phases: MissionPhase[];
+}
+
+export interface PhaseSample {
+  phase: MissionPhase;
+  index: number;
+  progress: number; // Raw progress within the phase
+  eased: number;
+}
+
+const clamp01 = (t: number) => Math.max(0, Math.min(1, t));
+
+const GROUND_VISIBLE = { ground: true, earth: false, stars: false };
+const SPACE_VISIBLE = { ground: false, earth: true, stars: true };
+// Where the transition hands over to the rocket, and where the ascent sweep starts
+const CLIMB_CAMERA: CameraTrack = {
+  anchor: 'rocket',
+  keys: [{ at: 0, position: [0, 15, 75], lookAt: [0, 0, 0] }],
+  smoothing: 0.04,
+  userAngles: true,
+};
+
+export const DEFAULT_MISSION_TIMELINE: MissionTimeline = {
+  duration: 90,
+  phases: [
+    // --- Ground launch sequence ---
+    {
+      id: 'prelaunch',
+      label: 'Pre-Launch Countdown',
+      start: 0, end: 0.05,
+      easing: 'easeInOutCubic',
+      rocket: { from: { frame: 'ground', offset: 0 }, to: { frame: 'ground', offset: 0 } },
+      exhaust: 0,
+      visibility: GROUND_VISIBLE,
+      flightTime: 0,
+      countdown: 10,
+      subject: 'rocket',
+      camera: {
+        anchor: 'world',
+        keys: [
+          { at: 0, position: [100, 20, 100], lookAt: [0, 12, 0] },
+          { at: 1, position: [85, 18, 85], lookAt: [0, 12, 0] },
+        ],
+        smoothing: 0.012,
+        userAngles: false,
+      },
+    },
+    {
+      id: 'ignition',
+      label: 'Ignition Sequence',
+      start: 0.05, end: 0.10,
+      easing: 'easeInOutCubic',
+      rocket: { from: { frame: 'ground', offset: 0 }, to: { frame: 'ground', offset: 0 } },
+      exhaust: { keys: [[0, 0], [1, 0.3]], easing: 'linear' },
+      visibility: GROUND_VISIBLE,
+      flightTime: 0,
+      countdown: { keys: [[0, 10], [1, 0]], easing: 'linear' },
+      subject: 'rocket',
+      camera: {
+        anchor: 'world',
+        keys: [
+          { at: 0, position: [85, 18, 85], lookAt: [0, 12, 0] },
+          { at: 1, position: [70, 20, 70], lookAt: [0, 12, 0] },
+        ],
+        smoothing: 0.012,
+        userAngles: false,
+      },
+    },
+    {
+      id: 'liftoff',
+      label: 'Ground Liftoff',
+      start: 0.10, end: 0.35,
+      easing: 'easeInOutCubic',
+      rocket: { from: { frame: 'ground', offset: 0 }, to: { frame: 'ground', offset: 50 } },
+      exhaust: { keys: [[0, 0], [0.7 / 1.2, 0.7], [1, 0.7]] },
+      visibility: GROUND_VISIBLE,
+      flightTime: { keys: [[0, 0], [1, 30]] },
+      subject: 'rocket',
+      camera: {
+        anchor: 'world',
+        keys: [
+          { at: 0, position: [70, 20, 70], lookAt: [0, 12, 0] },
+          { at: 1, position: [65, 38, 65], lookAt: [0, 33, 0] },
+        ],
+        smoothing: 0.012,
+        userAngles: false,
+      },
+    },
+    {
+      id: 'transition',
+      label: 'Ascending to Orbit',
+      start: 0.35, end: 0.50,
+      easing: 'easeInOutQuint',
+      // The rocket keeps climbing while the site wraps onto the globe, so it ends above the pad rather than back on it
+      rocket: { from: { frame: 'ground', offset: 50 }, to: { frame: 'pad', offset: 40 } },
+      exhaust: { keys: [[0, 0.45], [1, 0.08]] },
+      // The launch site zooms out and wraps onto the globe, which appears beneath it once the pad has risen to its surface
+      visibility: { ground: true, earth: [0.6, 1], stars: [0.6, 1] },
+      globeMorph: { keys: [[0, 0], [1, 1]] },
+      flightTime: { keys: [[0, 30], [1, 60]] },
+      subject: 'rocket',
+      camera: {
+        anchor: 'world',
+        keys: [
+          { at: 0, position: [65, 38, 65], lookAt: [0, 33, 0] },
+          { at: 0.2, position: [58, 60, 95], lookAt: [0, 31, 0], easing: 'easeInOutQuint' },
+          { at: 7 / 15, position: [42, 90, 140], lookAt: [0, 28, 0], easing: 'easeInOutQuint' },
+          { at: 11 / 15, position: [25, 115, 200], lookAt: [0, 23, 0], easing: 'easeInOutQuint' },
+          { at: 1, anchor: 'rocket', position: [0, 15, 75], lookAt: [0, 0, 0], easing: 'easeInOutQuint' },
+        ],
+        smoothing: 0.012,
+        userAngles: false,
+      },
+    },
+    // --- Space sequence on the globe ---
+    {
+      id: 'approach',
+      label: 'Orbital Approach',
+      start: 0.50, end: 0.53,
+      easing: 'linear',
+      rocket: { from: { frame: 'pad', offset: 40 }, to: { frame: 'pad', offset: 70 } },
+      exhaust: { keys: [[0, 0.08], [1, 0.5]] },
+      visibility: SPACE_VISIBLE,
+      flightTime: { keys: [[0, 60], [1, 68]] },
+      subject: 'rocket',
+      camera: CLIMB_CAMERA,
+    },
+    {
+      id: 'preparation',
+      label: 'Downrange Climb',
+      start: 0.53, end: 0.58,
+      easing: 'linear',
+      rocket: { from: { frame: 'pad', offset: 70 }, to: { frame: 'pad', offset: 110 } },
+      exhaust: { keys: [[0, 0.5], [1, 1]] },
+      visibility: SPACE_VISIBLE,
+      flightTime: { keys: [[0, 68], [1, 80]] },
+      subject: 'rocket',
+      camera: CLIMB_CAMERA,
+    },
+    {
+      id: 'ascent',
+      label: 'Gravity Turn',
+      start: 0.58, end: 0.72,
+      easing: 'easeInOutCubic',
+      rocket: { from: { frame: 'pad', offset: 110 }, to: { frame: 'pad', offset: 250 } },
+      exhaust: 1,
+      visibility: SPACE_VISIBLE,
+      flightTime: { keys: [[0, 80], [1, 92]] },
+      subject: 'rocket',
+      camera: {
+        anchor: 'rocket',
+        keys: [{ at: 0, lookAt: [0, 0, 0] }],
+        sweep: { center: [0, 15, 60], radius: [30, 15], angle: [Math.PI / 2, 0] },
+        smoothing: 0.04,
+        userAngles: true,
+      },
+    },
+    {
+      id: 'boosters',
+      label: 'Orbital Ascent',
+      start: 0.72, end: 0.82,
+      easing: 'easeInOutCubic',
+      rocket: { from: { frame: 'pad', offset: 250 }, to: { frame: 'pad', offset: 470 } },
+      exhaust: { keys: [[0, 1], [0.3, 1], [1, 0.7]] },
+      visibility: SPACE_VISIBLE,
+      flightTime: { keys: [[0, 92], [0.3, 99.5], [1, 182.2]] },
+      subject: 'rocket',
+      camera: {
+        anchor: 'rocket',
+        keys: [{ at: 0, position: [65, 35, 65], lookAt: [0, 0, 0] }],
+        smoothing: 0.04,
+        userAngles: true,
+      },
+      cues: [{ action: 'separateBoosters', event: 'boosterSeparation', label: 'Booster Separation' }],
+    },
+    {
+      id: 'staging',
+      label: 'Main Engine Cutoff',
+      start: 0.82, end: 0.86,
+      easing: 'linear',
+      rocket: { from: { frame: 'pad', offset: 470 }, to: { frame: 'pad', offset: 520 } },
+      exhaust: { keys: [[0, 0.7], [0.1, 0]] },
+      visibility: SPACE_VISIBLE,
+      flightTime: { keys: [[0, 182.2], [0.25, 183.2], [0.5, 185.2], [1, 197.7]] },
+      subject: 'rocket',
+      camera: {
+        anchor: 'rocket',
+        keys: [{ at: 0, position: [65, 35, 65], lookAt: [0, 15, 0] }],
+        smoothing: 0.04,
+        userAngles: true,
+      },
+      cues: [
+        { action: 'separateStage', event: 'stageSeparation', label: 'Stage Separation' },
+        { action: 'igniteUpperStage', event: 'upperStageIgnition', span: 2.5, label: 'Second Stage Ignition' },
+      ],
+    },
+    {
+      id: 'fairing',
+      label: 'Second Stage Burn',
+      start: 0.86, end: 0.94,
+      easing: 'easeInOutCubic',
+      rocket: { from: { frame: 'pad', offset: 520 }, to: { frame: 'pad', offset: 600 } },
+      exhaust: 0,
+      visibility: SPACE_VISIBLE,
+      flightTime: { keys: [[0, 197.7], [1, 487]] },
+      subject: 'satellite',
+      camera: {
+        anchor: 'satellite',
+        keys: [{ at: 0, position: [-20, 10, 40], lookAt: [0, 0, 0] }],
+        smoothing: 0.04,
+        userAngles: true,
+      },
+      cues: [
+        // The payload shows once the fairing halves open
+        { action: 'separateFairing', event: 'fairingJettison', label: 'Fairing Separation' },
+        { action: 'deploySatellite', event: 'fairingJettison' },
+        { action: 'cutoffUpperStage', event: 'seco', label: 'Second Stage Cutoff' },
+      ],
+    },
+    {
+      id: 'orbit',
+      label: 'Orbital Operations',
+      start: 0.94, end: 1,
+      easing: 'easeInOutCubic',
+      rocket: { from: { frame: 'pad', offset: 600 }, to: { frame: 'pad', offset: 580 } },
+      exhaust: 0,
+      visibility: SPACE_VISIBLE,
+      flightTime: { keys: [[0, 487], [1, 600]] },
+      subject: 'satellite',
+      camera: {
+        anchor: 'world',
+        keys: [{ at: 0, lookAt: [0, 0, 0] }],
+        sweep: { center: [0, 70, 0], radius: [180, 180], angle: [0, 0], rate: 0.15 },
+        smoothing: 0.04,
+        userAngles: true,
+      },
+      cues: [{ action: 'deploySolarPanels', until: 1 / 3 }, { action: 'orbit' }],
+    },
+  ],
+};
+
+// Optional booster recovery epilogue, back at the ground launch site. Start and end are fractions of the
+// epilogue; recovery times match the recovery model (boostback 103.5-129.1 s, re-entry burn 222-230.3 s,
+// landing burn from 293.7 s, touchdown at 327.5 s).
+const RECOVERY_VISIBLE = { ground: true, earth: false, stars: false, vehicle: false };
+const RECOVERY_CAMERA: CameraTrack = {
+  anchor: 'booster',
+  keys: [{ at: 0, position: [45, 12, 55], lookAt: [0, 8, 0] }],
+  smoothing: 0.06,
+  userAngles: true,
+};
+const recoveryPhase = (id: string, label: string, start: number, end: number, recoveryTime: Scalar): MissionPhase => ({
+  id, label, start, end,
+  easing: 'linear',
+  rocket: { from: { frame: 'pad', offset: 580 }, to: { frame: 'pad', offset: 580 } },
+  exhaust: 0,
+  visibility: RECOVERY_VISIBLE,
+  flightTime: 600,
+  recoveryTime,
+  subject: 'booster',
+  camera: RECOVERY_CAMERA,
+});
+
+export const RECOVERY_EPILOGUE_DURATION = 30;
+
+export const RECOVERY_EPILOGUE: MissionPhase[] = [
+  recoveryPhase('boostback', 'Booster Boostback Burn', 0, 1 / 6, { keys: [[0, 99.5], [1, 129.1]] }),
+  recoveryPhase('boosterCoast', 'Booster Coast', 1 / 6, 1 / 3, { keys: [[0, 129.1], [1, 222]] }),
+  recoveryPhase('entryBurn', 'Booster Re-entry Burn', 1 / 3, 7 / 15, { keys: [[0, 222], [1, 230.3]] }),
+  recoveryPhase('boosterDescent', 'Booster Descent', 7 / 15, 19 / 30, { keys: [[0, 230.3], [1, 293.7]] }),
+  {
+    ...recoveryPhase('landingBurn', 'Booster Landing Burn', 19 / 30, 1, { keys: [[0, 293.7], [0.9, 327.5], [1, 332]] }),
+    camera: {
+      anchor: 'booster',
+      keys: [
+        { at: 0, position: [45, 12, 55], lookAt: [0, 8, 0] },
+        { at: 0.9, position: [30, 6, 40], lookAt: [0, 6, 0], easing: 'easeInOutCubic' },
+      ],
+      smoothing: 0.06,
+      userAngles: true,
+    },
+    cues: [{ action: 'deployLandingLegs', at: 0.62, until: 0.8 }],
+  },
+];
+
+// Flight times the keys above are written against: the default vehicle's ascent events
+export const NOMINAL_ASCENT_EVENTS: AscentEvents = {
+  maxQ: 69.6, boosterSeparation: 99.5, meco: 182.2, stageSeparation: 183.2, upperStageIgnition: 185.2, fairingJettison: 197.7, seco: 486.8,
+};
+
+// Maps nominal flight time onto an ascent's, pinned at each staging event; past the last pin both run together
+const flightTimeWarp = (events: AscentEvents) => {
+  const pins: Array<[number, number]> = [[0, 0]];
+  (['boosterSeparation', 'meco', 'stageSeparation', 'upperStageIgnition', 'seco'] as const).forEach(key => {
+    const from = NOMINAL_ASCENT_EVENTS[key];
+    const to = events[key];
+    const [lastFrom, lastTo] = pins[pins.length - 1];
+    if (from !== null && to !== null && from > lastFrom && to > lastTo) pins.push([from, to]);
+  });
+  const [endFrom, endTo] = pins[pins.length - 1];
+  return (time: number) => (time >= endFrom ? endTo + time - endFrom : sampleKeys(pins, time));
+};
+
+const warpScalar = (value: Scalar, warp: (time: number) => number): Scalar =>
+  typeof value === 'number' ? warp(value) : { ...value, keys: value.keys.map(([t, v]): [number, number] => [t, warp(v)]) };
+
+// Eased phase progress at which the phase's (non-decreasing) flight time reaches `time`
+const easedAtFlightTime = (phase: MissionPhase, time: number) => {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 32; i++) {
+    const mid = (low + high) / 2;
+    const sample = { phase, index: 0, progress: mid, eased: EASINGS[phase.easing](mid) };
+    if (sampleScalar(phase.flightTime, sample) < time) low = mid; else high = mid;
+  }
+  return EASINGS[phase.easing](high);
+};
+
+// The mission as flown by one ascent: flight times follow its staging events, and every cue tied to an event
+// moves to the moment the event happens. Cues for events the flight never has (e.g. booster separation on a
+// vehicle without boosters) are dropped.
+export const timelineForAscent = (timeline: MissionTimeline, events: AscentEvents): MissionTimeline => {
+  const warp = flightTimeWarp(events);
+  const phases = timeline.phases.map(phase => ({
+    ...phase,
+    flightTime: warpScalar(phase.flightTime, warp),
+    cues: phase.cues?.filter(cue => !cue.event),
+  }));
+  const flightSpan = (phase: MissionPhase) => {
+    const { flightTime } = phase;
+    return typeof flightTime === 'number' ? null : [flightTime.keys[0][1], flightTime.keys[flightTime.keys.length - 1][1]];
+  };
+
+  timeline.phases.forEach(({ cues }) => cues?.forEach(cue => {
+    const time = cue.event ? events[cue.event] : null;
+    if (time === null) return;
+    const phase = phases.find(candidate => {
+      const span = flightSpan(candidate);
+      return span !== null && time >= span[0] && time < span[1];
+    });
+    if (!phase) return;
+    const at = easedAtFlightTime(phase, time);
+    const until = cue.span === undefined ? cue.until : easedAtFlightTime(phase, time + cue.span);
+    phase.cues = [...(phase.cues ?? []), { ...cue, at, until }].sort((a, b) => (a.at ?? 0) - (b.at ?? 0));
+  }));
+  return { ...timeline, phases };
+};
+
+// Appends the recovery epilogue, squeezing the main mission into the first part of a longer playback
+export const withRecoveryEpilogue = (timeline: MissionTimeline): MissionTimeline => {
+  const duration = timeline.duration + RECOVERY_EPILOGUE_DURATION;
+  const share = timeline.duration / duration;
+  return {
+    duration,
+    phases: [
+      ...timeline.phases.map(phase => ({ ...phase, start: phase.start * share, end: phase.end * share })),
+      ...RECOVERY_EPILOGUE.map(phase => ({ ...phase, start: share + phase.start * (1 - share), end: share + phase.end * (1 - share) })),
+    ],
+  };
+};
+
+// Locates the phase containing global progress `p` (0..1)
+export const samplePhase = (timeline: MissionTimeline, p: number): PhaseSample => {
+  const { phases } = timeline;
+  let index = phases.findIndex(phase => p <= phase.end);
+  if (index === -1) index = phases.length - 1;
+  const phase = phases[index];
+  const progress = clamp01((p - phase.start) / (phase.end - phase.start));
+  return { phase, index, progress, eased: EASINGS[phase.easing](progress) };
+};
+
+const sampleKeys = (keys: Array<[number, number]>, t: number) => {
+  if (t <= keys[0][0]) return keys[0][1];
+  for (let i = 1; i < keys.length; i++) {
+    const [t1, v1] = keys[i];
+    if (t <= t1) {
+      const [t0, v0] = keys[i - 1];
+      return v0 + (v1 - v0) * ((t - t0) / (t1 - t0));
+    }
+  }
+  return keys[keys.length - 1][1];
+};
+
+export const sampleScalar = (value: Scalar, sample: PhaseSample) => {
+  if (typeof value === 'number') return value;
+  const t = value.easing ? EASINGS[value.easing](sample.progress) : sample.eased;
+  return sampleKeys(value.keys, t);
+};
+
+export const isVisible = (visibility: Visibility, sample: PhaseSample) => {
+  if (typeof visibility === 'boolean') return visibility;
+  return sample.eased >= visibility[0] && sample.eased <= visibility[1];
+};
+
+// Label of the current phase, including any cue that has taken over (e.g. "Booster Separation")
+export const phaseLabel = (sample: PhaseSample) => {
+  let label = sample.phase.label;
+  sample.phase.cues?.forEach(cue => {
+    if (cue.label && sample.eased >= (cue.at ?? 0)) label = cue.label;
+  });
+  return label;
+};
+
+// Progress of a cue at global progress `p`: null before it starts, 1 once its phase is over
+export const cueProgress = (timeline: MissionTimeline, action: PhaseAction, p: number): number | null => {
+  const sample = samplePhase(timeline, p);
+  for (let index = sample.index; index >= 0; index--) {
+    const cue = timeline.phases[index].cues?.find(c => c.action === action);
+    if (!cue) continue;
+    if (index < sample.index) return 1;
+    const at = cue.at ?? 0;
+    const until = cue.until ?? 1;
+    if (sample.eased >= at) return until > at ? clamp01((sample.eased - at) / (until - at)) : 1;
+  }
+  return null;
+};
+
+// Seconds since liftoff (0 while still on the pad)
+export const flightTimeAt = (timeline: MissionTimeline, p: number) => {
+  const sample = samplePhase(timeline, p);
+  return sampleScalar(sample.phase.flightTime, sample);
+};
+
+// Seconds remaining before liftoff, or 0 once the rocket has left the pad
+export const countdownAt = (timeline: MissionTimeline, p: number) => {
+  const sample = samplePhase(timeline, p);
+  return sample.phase.countdown === undefined ? 0 : sampleScalar(sample.phase.countdown, sample);
+};
+
+// Surrounding keys of the camera track and the eased progress between them
+export const sampleCameraKeys = (track: CameraTrack, sample: PhaseSample) => {
+  const { keys } = track;
+  const t = sample.progress;
+  if (keys.length === 1 || t <= keys[0].at) return { from: keys[0], to: keys[0], alpha: 0 };
+  for (let i = 1; i < keys.length; i++) {
+    const to = keys[i];
+    if (t <= to.at) {
+      const from = keys[i - 1];
+      const local = (t - from.at) / (to.at - from.at);
+      return { from, to, alpha: EASINGS[to.easing ?? sample.phase.easing](local) };
+    }
+  }
+  const last = keys[keys.length - 1];
+  return { from: last, to: last, alpha: 0 };
+};
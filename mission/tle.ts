@@ -0,0 +1,96 @@
+// Two-line element set parsing.
+// Accepts the common two- or three-line formats (optional name line, with or without the "0 " prefix).
+
+import { EARTH_MU_KM, meanToTrue } from './orbit';
+import type { OrbitalElements } from './orbit';
+
+export interface Tle {
+  name: string;
+  noradId: string;
+  epoch: Date;
+  inclination: number; // rad
+  raan: number; // rad
+  eccentricity: number;
+  argumentOfPerigee: number; // rad
+  meanAnomaly: number; // rad
+  meanMotion: number; // rev/day
+  bstar: number; // 1/earth radii
+  line1: string;
+  line2: string;
+}
+
+const DEG = Math.PI / 180;
+
+// Modulo-10 checksum: digits count at face value, '-' counts as 1
+const checksum = (line: string) => {
+  let sum = 0;
+  for (const ch of line.slice(0, 68)) {
+    if (ch >= '0' && ch <= '9') sum += Number(ch);
+    else if (ch === '-') sum += 1;
+  }
+  return sum % 10;
+};
+
+// Decodes the assumed-decimal exponent notation used for B* and nddot, e.g. " 28098-4" -> 0.28098e-4
+const parseExponent = (field: string) => {
+  const s = field.trim();
+  if (!s) return 0;
+  const sign = s[0] === '-' ? -1 : 1;
+  const body = s.replace(/^[+-]/, '');
+  const match = body.match(/^(\d+)([+-]\d)$/);
+  if (!match) return sign * Number(`0.${body}`);
+  return sign * Number(`0.${match[1]}`) * Math.pow(10, Number(match[2]));
+};
+
+const parseEpoch = (yy: number, dayOfYear: number) => {
+  const year = yy < 57 ? 2000 + yy : 1900 + yy;
+  return new Date(Date.UTC(year, 0, 1) + (dayOfYear - 1) * 86400000);
+};
+
+const validateLine = (line: string, number: '1' | '2') => {
+  if (line.length < 69 || line[0] !== number) throw new Error(`TLE line ${number} is malformed`);
+  if (checksum(line) !== Number(line[68])) throw new Error(`TLE line ${number} fails its checksum`);
+};
+
+export const parseTle = (text: string): Tle => {
+  const lines = text.split(/\r?\n/).map(l => l.trimEnd()).filter(l => l.trim().length > 0);
+  const index = lines.findIndex((l, i) => l.startsWith('1 ') && lines[i + 1]?.startsWith('2 '));
+  if (index === -1) throw new Error('No two-line element set found');
+  const line1 = lines[index];
+  const line2 = lines[index + 1];
+  validateLine(line1, '1');
+  validateLine(line2, '2');
+
+  const noradId = line1.slice(2, 7).trim();
+  if (line2.slice(2, 7).trim() !== noradId) throw new Error('TLE lines belong to different satellites');
+  const rawName = index > 0 ? lines[index - 1].trim() : '';
+  const name = rawName.replace(/^0 /, '') || `NORAD ${noradId}`;
+
+  return {
+    name,
+    noradId,
+    epoch: parseEpoch(Number(line1.slice(18, 20)), Number(line1.slice(20, 32))),
+    inclination: Number(line2.slice(8, 16)) * DEG,
+    raan: Number(line2.slice(17, 25)) * DEG,
+    eccentricity: Number(`0.${line2.slice(26, 33).trim()}`),
+    argumentOfPerigee: Number(line2.slice(34, 42)) * DEG,
+    meanAnomaly: Number(line2.slice(43, 51)) * DEG,
+    meanMotion: Number(line2.slice(52, 63)),
+    bstar: parseExponent(line1.slice(53, 61)),
+    line1,
+    line2,
+  };
+};
+
+// Classical elements from the TLE mean elements (for HUD summaries)
+export const elementsFromTle = (tle: Tle): OrbitalElements => {
+  const n = (tle.meanMotion * 2 * Math.PI) / 86400; // rad/s
+  return {
+    semiMajorAxis: Math.cbrt(EARTH_MU_KM / (n * n)),
+    eccentricity: tle.eccentricity,
+    inclination: tle.inclination,
+    raan: tle.raan,
+    argumentOfPeriapsis: tle.argumentOfPerigee,
+    trueAnomaly: meanToTrue(tle.meanAnomaly, tle.eccentricity),
+  };
+};
@@ -0,0 +1,86 @@
+// Texture asset manifest.
+// Earth imagery is served from the app's own build (public/textures) at three quality tiers. Loading walks
+// down the ladder from the chosen tier and ends on a procedural texture, so the scene renders offline.
+
+import * as THREE from 'three';
+
+export type TextureQuality = '2k' | '4k' | '8k';
+
+export interface EarthAssets {
+  map: string;
+  bumpMap: string;
+  clouds: string;
+  nightLights: string;
+  waterMask: string;
+}
+
+export type AssetState = 'loading' | 'loaded' | 'fallback' | 'failed';
+
+export interface AssetStatus {
+  name: string;
+  url: string; // Source currently being tried, or the one that settled
+  state: AssetState;
+}
+
+export interface LoadingProgress {
+  assets: AssetStatus[];
+  timedOut: boolean;
+}
+
+export const TEXTURE_QUALITIES: TextureQuality[] = ['2k', '4k', '8k'];
+export const LOAD_TIMEOUT_MS = 20000;
+
+const TEXTURE_WIDTH: Record<TextureQuality, number> = { '2k': 2048, '4k': 4096, '8k': 8192 };
+
+const earthAssets = (quality: TextureQuality): EarthAssets => ({
+  map: `/textures/earth/${quality}/earth-day.jpg`,
+  bumpMap: `/textures/earth/${quality}/earth-bump.png`,
+  clouds: `/textures/earth/${quality}/earth-clouds.png`,
+  nightLights: `/textures/earth/${quality}/earth-night.jpg`,
+  waterMask: `/textures/earth/${quality}/earth-water.png`,
+});
+
+export const ASSET_MANIFEST: { earth: Record<TextureQuality, EarthAssets> } = {
+  earth: { '2k': earthAssets('2k'), '4k': earthAssets('4k'), '8k': earthAssets('8k') },
+};
+
+// Highest tier the GPU can sample and the screen can show; `?textures=2k|4k|8k` overrides it
+export const pickTextureQuality = (maxTextureSize: number): TextureQuality => {
+  const requested = new URLSearchParams(window.location.search).get('textures');
+  if (TEXTURE_QUALITIES.includes(requested as TextureQuality)) return requested as TextureQuality;
+  const screenWidth = window.screen.width * window.devicePixelRatio;
+  const fitting = TEXTURE_QUALITIES.filter(q => TEXTURE_WIDTH[q] <= maxTextureSize && TEXTURE_WIDTH[q] <= screenWidth * 2);
+  return fitting[fitting.length - 1] ?? '2k';
+};
+
+// URLs for one Earth asset from `quality` down to 2k
+export const earthAssetLadder = (key: keyof EarthAssets, quality: TextureQuality) =>
+  TEXTURE_QUALITIES.slice(0, TEXTURE_QUALITIES.indexOf(quality) + 1).reverse().map(q => ASSET_MANIFEST.earth[q][key]);
+
+// Returns a texture immediately and fills it with the first URL that loads, or with `fallback()` if none do.
+// Each retry starts before the failed request ends, so the LoadingManager only completes once a source is settled.
+export const loadTextureWithFallback = (
+  loader: THREE.TextureLoader,
+  urls: string[],
+  fallback: () => HTMLCanvasElement | null,
+  onStatus?: (url: string, state: AssetState) => void,
+) => {
+  const texture = new THREE.Texture();
+  const tryLoad = (index: number) => {
+    if (index >= urls.length) {
+      const canvas = fallback();
+      if (canvas) { texture.image = canvas; texture.needsUpdate = true; }
+      onStatus?.('procedural', canvas ? 'fallback' : 'failed');
+      return;
+    }
+    onStatus?.(urls[index], 'loading');
+    loader.load(
+      urls[index],
+      (loaded) => { texture.image = loaded.image; texture.needsUpdate = true; onStatus?.(urls[index], 'loaded'); },
+      undefined,
+      () => tryLoad(index + 1),
+    );
+  };
+  tryLoad(0);
+  return texture;
+};
@@ -0,0 +1,112 @@
+// Sky seen from inside the atmosphere: a camera-centred dome shaded with single Rayleigh and Mie scattering,
+// plus exponential fog. Both scale with the air left above the viewer, so the sky fades from blue through
+// deep indigo to black during the climb and the haze clears with it. The dome draws first and replaces the
+// scene background; stars and the globe render over it once it has gone dark.
+
+import * as THREE from 'three';
+import type { SceneBuilder } from './builder';
+import { disposeObject } from './builder';
+import { atmospherePressure } from '../mission/ascent';
+
+export interface SkyOptions {
+  radius?: number; // Keep inside the camera's far plane
+}
+
+export interface SkyState {
+  altitude: number; // m, of the viewer
+  sunDirection: THREE.Vector3; // Unit vector towards the sun
+  viewer: THREE.Vector3; // Camera position; the dome stays centred on it
+}
+
+export interface Sky extends SceneBuilder<SkyState> {
+  object: THREE.Mesh;
+  fog: THREE.FogExp2; // Assign to scene.fog
+}
+
+const FOG_COLOR = 0x87ceeb;
+const SEA_LEVEL_FOG_DENSITY = 0.0025;
+const MIE_SCALE_HEIGHT = 1200; // m; haze and aerosols sit much lower than the air itself
+
+const skyVertexShader = `
+  varying vec3 vDirection;
+  void main() {
+    vDirection = position;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4( position, 1.0 );
+  }
+`;
+
+// Optical depths are for a vertical column from sea level; the viewer's altitude scales them down
+const skyFragmentShader = `
+  uniform vec3 u_sunDirection;
+  uniform float u_rayleighDensity;
+  uniform float u_mieDensity;
+  varying vec3 vDirection;
+
+  const vec3 RAYLEIGH_DEPTH = vec3( 0.046, 0.108, 0.265 );
+  const float MIE_DEPTH = 0.025;
+  const float MIE_G = 0.76;
+  const float SUN_INTENSITY = 100.0;
+  const float PI = 3.14159265;
+
+  // Relative path length through the atmosphere towards a direction with elevation sine y
+  float airMass( float y ) {
+    return 1.0 / ( max( y, 0.0 ) + 0.05 );
+  }
+
+  void main() {
+    vec3 direction = normalize( vDirection );
+    float cosTheta = dot( direction, u_sunDirection );
+
+    vec3 rayleigh = RAYLEIGH_DEPTH * u_rayleighDensity;
+    float mie = MIE_DEPTH * u_mieDensity;
+    vec3 extinction = rayleigh + mie;
+
+    float rayleighPhase = 3.0 / ( 16.0 * PI ) * ( 1.0 + cosTheta * cosTheta );
+    float g2 = MIE_G * MIE_G;
+    float miePhase = ( 1.0 - g2 ) / ( 4.0 * PI * pow( 1.0 + g2 - 2.0 * MIE_G * cosTheta, 1.5 ) );
+
+    // Sunlight reaching the scattering air, then the fraction scattered towards the viewer along the ray
+    vec3 sunTransmittance = exp( -extinction * airMass( u_sunDirection.y ) );
+    vec3 scattered = ( rayleigh * rayleighPhase + mie * miePhase ) / max( extinction, vec3( 1e-6 ) );
+    vec3 inscatter = scattered * ( 1.0 - exp( -extinction * airMass( direction.y ) ) ) * sunTransmittance * SUN_INTENSITY;
+
+    // Sun disc, dimmed by the same transmittance
+    inscatter += sunTransmittance * smoothstep( 0.9995, 0.9998, cosTheta ) * 20.0;
+
+    gl_FragColor = vec4( 1.0 - exp( -inscatter ), 1.0 );
+  }
+`;
+
+export const createSky = ({ radius = 2500 }: SkyOptions = {}): Sky => {
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      u_sunDirection: { value: new THREE.Vector3(0, 1, 0) },
+      u_rayleighDensity: { value: 1 },
+      u_mieDensity: { value: 1 },
+    },
+    vertexShader: skyVertexShader,
+    fragmentShader: skyFragmentShader,
+    side: THREE.BackSide,
+    depthWrite: false,
+    depthTest: false,
+    fog: false,
+  });
+  const dome = new THREE.Mesh(new THREE.SphereBufferGeometry(radius, 64, 32), material);
+  dome.renderOrder = -1; // Drawn before everything else, like a background
+  dome.frustumCulled = false;
+  const fog = new THREE.FogExp2(FOG_COLOR, SEA_LEVEL_FOG_DENSITY);
+
+  return {
+    object: dome,
+    fog,
+    update: ({ altitude, sunDirection, viewer }) => {
+      const airDensity = atmospherePressure(altitude) / atmospherePressure(0);
+      dome.position.copy(viewer);
+      material.uniforms.u_sunDirection.value.copy(sunDirection);
+      material.uniforms.u_rayleighDensity.value = airDensity;
+      material.uniforms.u_mieDensity.value = Math.exp(-Math.max(0, altitude) / MIE_SCALE_HEIGHT);
+      fog.density = SEA_LEVEL_FOG_DENSITY * airDensity;
+    },
+    dispose: () => disposeObject(dome),
+  };
+};
@@ -0,0 +1,31 @@
+// Common shape of the scene's building blocks. Each factory returns a root object to add to the scene,
+// an `update` that applies one frame's state, and a `dispose` that frees what the builder created.
+
+import * as THREE from 'three';
+
+export interface SceneBuilder<TState> {
+  object: THREE.Object3D;
+  update: (state: TState) => void;
+  dispose: () => void;
+}
+
+const TEXTURE_SLOTS = ['map', 'bumpMap', 'normalMap', 'roughnessMap', 'metalnessMap', 'emissiveMap', 'alphaMap'] as const;
+
+// Frees geometries, materials and their texture maps under `root`; `shared` materials are left for their owner
+export const disposeObject = (root: THREE.Object3D, shared: THREE.Material[] = []) => {
+  root.traverse((child: THREE.Object3D) => {
+    if (!(child instanceof THREE.Mesh || child instanceof THREE.Points || child instanceof THREE.Line || child instanceof THREE.Sprite)) return;
+    child.geometry.dispose();
+    const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+    materials.filter(material => !shared.includes(material)).forEach((material: THREE.Material) => {
+      TEXTURE_SLOTS.forEach(slot => {
+        const texture: unknown = Reflect.get(material, slot);
+        if (texture instanceof THREE.Texture) texture.dispose();
+      });
+      if (material instanceof THREE.ShaderMaterial) {
+        Object.values(material.uniforms).forEach((uniform: THREE.IUniform) => { if (uniform.value instanceof THREE.Texture) uniform.value.dispose(); });
+      }
+      material.dispose();
+    });
+  });
+};
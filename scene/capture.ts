@@ -0,0 +1,144 @@
+// High-resolution stills.
+// The frame is rendered as a grid of window-sized tiles (camera view offsets) and stitched on a 2D canvas,
+// so the output can exceed the GPU's drawing-buffer limits and the on-screen view is never resized.
+
+import * as THREE from 'three';
+import type { MissionData } from '../App';
+
+export interface CaptureOptions {
+  scale: number; // Multiple of the window resolution, 1..8
+  includeHud: boolean;
+  progressValues?: number[]; // When set, produces a storyboard contact sheet instead of a single still
+}
+
+export interface CaptureResult {
+  blob?: Blob;
+  error?: string;
+}
+
+export interface StoryboardFrame {
+  canvas: HTMLCanvasElement;
+  caption: string;
+}
+
+export const CAPTURE_SCALES = [2, 4, 6, 8];
+export const MAX_CAPTURE_SIZE = 16384; // Longest edge browsers reliably allow for a 2D canvas
+
+// Largest scale <= `scale` whose output fits within MAX_CAPTURE_SIZE
+export const clampCaptureScale = (scale: number, width: number, height: number) =>
+  Math.max(1, Math.min(Math.floor(scale), Math.floor(MAX_CAPTURE_SIZE / Math.max(width, height))));
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('2D canvas is not available');
+  return { canvas, context };
+};
+
+// Renders `scale`² tiles, each the size of the current drawing buffer. The caller re-renders its
+// normal view afterwards, in the same task, so the tiles never reach the screen.
+export const renderTiled = (renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera, scale: number): HTMLCanvasElement => {
+  const source = renderer.domElement;
+  const tileWidth = source.width;
+  const tileHeight = source.height;
+  const { canvas, context } = createCanvas(tileWidth * scale, tileHeight * scale);
+
+  for (let ty = 0; ty < scale; ty++) {
+    for (let tx = 0; tx < scale; tx++) {
+      camera.setViewOffset(canvas.width, canvas.height, tx * tileWidth, ty * tileHeight, tileWidth, tileHeight);
+      renderer.render(scene, camera);
+      context.drawImage(source, 0, 0, tileWidth, tileHeight, tx * tileWidth, ty * tileHeight, tileWidth, tileHeight);
+    }
+  }
+  camera.clearViewOffset();
+  return canvas;
+};
+
+// Paints the headline HUD fields (title, phase, altitude, velocity) in the overlay's style
+export const drawHud = (canvas: HTMLCanvasElement, data: MissionData) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  const unit = canvas.height / 100; // Layout in percent of the image height
+  const font = (size: number, bold = false) => `${bold ? 'bold ' : ''}${Math.round(size * unit)}px ui-monospace, monospace`;
+
+  context.save();
+  context.textBaseline = 'top';
+  context.fillStyle = '#67e8f9';
+  context.font = font(4, true);
+  context.fillText('SATELLITE LAUNCH SIM', 4 * unit, 4 * unit);
+  context.fillStyle = '#ffffff';
+  context.font = font(2.2);
+  context.fillText('Mission: Orbit Insertion', 4 * unit, 9.5 * unit);
+  context.fillStyle = '#a5f3fc';
+  context.font = font(1.8);
+  context.fillText(`Launch site: ${data.site}`, 4 * unit, 13 * unit);
+
+  const panelWidth = 60 * unit;
+  const panelHeight = 16 * unit;
+  const panelX = (canvas.width - panelWidth) / 2;
+  const panelY = canvas.height - panelHeight - 4 * unit;
+  context.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  context.strokeStyle = 'rgba(55, 65, 81, 1)';
+  context.lineWidth = Math.max(1, 0.15 * unit);
+  context.fillRect(panelX, panelY, panelWidth, panelHeight);
+  context.strokeRect(panelX, panelY, panelWidth, panelHeight);
+
+  context.textAlign = 'center';
+  context.fillStyle = '#22d3ee';
+  context.font = font(2.8);
+  context.fillText(`Phase: ${data.phase}`, canvas.width / 2, panelY + 2 * unit);
+
+  const fields = [
+    ['Altitude', `${data.altitude.toFixed(0)} KM`],
+    ['Velocity', `${data.velocity.toFixed(2)} KM/s`],
+  ];
+  fields.forEach(([label, value], i) => {
+    const x = panelX + panelWidth * (i + 0.5) / fields.length;
+    context.fillStyle = '#9ca3af';
+    context.font = font(1.8);
+    context.fillText(label, x, panelY + 7 * unit);
+    context.fillStyle = '#ffffff';
+    context.font = font(2.4);
+    context.fillText(value, x, panelY + 10 * unit);
+  });
+  context.restore();
+};
+
+// Near-square grid for `count` storyboard frames
+export const contactSheetGrid = (count: number) => {
+  const columns = Math.ceil(Math.sqrt(count));
+  return { columns, rows: Math.ceil(count / columns) };
+};
+
+// Lays the frames out in a contact-sheet grid with a caption strip under each one
+export const composeContactSheet = (frames: StoryboardFrame[]): HTMLCanvasElement => {
+  if (frames.length === 0) throw new Error('Storyboard needs at least one frame');
+  const { columns, rows } = contactSheetGrid(frames.length);
+  const cellWidth = frames[0].canvas.width;
+  const cellHeight = frames[0].canvas.height;
+  const captionHeight = Math.round(cellHeight * 0.08);
+  const gap = Math.round(cellHeight * 0.02);
+  const { canvas, context } = createCanvas(
+    columns * cellWidth + (columns + 1) * gap,
+    rows * (cellHeight + captionHeight) + (rows + 1) * gap,
+  );
+
+  context.fillStyle = '#000000';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.textBaseline = 'middle';
+  context.font = `${Math.round(captionHeight * 0.55)}px ui-monospace, monospace`;
+  frames.forEach((frame, i) => {
+    const x = gap + (i % columns) * (cellWidth + gap);
+    const y = gap + Math.floor(i / columns) * (cellHeight + captionHeight + gap);
+    context.drawImage(frame.canvas, x, y, cellWidth, cellHeight);
+    context.fillStyle = '#67e8f9';
+    context.fillText(frame.caption, x + captionHeight * 0.3, y + cellHeight + captionHeight / 2);
+  });
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+});
@@ -0,0 +1,212 @@
+// Globe seen from orbit. The surface shader blends the day map into night-side city lights across a soft
+// terminator, glints the sun only off water, and darkens the ground under the clouds. Above it sit a
+// sunlit cloud shell and an atmospheric rim glow that is brightest on the sunlit limb, matching the sky
+// seen from the ground. All three take the sun direction from the lighting rig.
+
+import * as THREE from 'three';
+import type { SceneBuilder } from './builder';
+import { disposeObject } from './builder';
+
+export interface EarthOptions {
+  radius: number;
+  // Supplied by the caller, which owns loading and fallbacks; the Earth disposes them with itself
+  textures: { map: THREE.Texture; bumpMap: THREE.Texture; clouds: THREE.Texture; nightLights: THREE.Texture; waterMask: THREE.Texture };
+}
+
+export interface EarthState {
+  visible: boolean;
+  rotation: number; // Radians about the polar (Y) axis
+  cloudRotation: number;
+  sunDirection: THREE.Vector3; // Unit vector towards the sun
+}
+
+export interface Earth extends SceneBuilder<EarthState> {
+  object: THREE.Group;
+  surface: THREE.Mesh; // Pick target for raycasts
+}
+
+const DEG = Math.PI / 180;
+const frameBasis = new THREE.Matrix4();
+const east = new THREE.Vector3();
+const up = new THREE.Vector3();
+const south = new THREE.Vector3();
+
+// Orientation of the local frame at a geographic point (deg) on the globe turned by `rotation`:
+// +Y is the local vertical, +X east and -Z north. The map's longitude 0 lies on +X at rotation 0
+export const surfaceFrame = (latitude: number, longitude: number, rotation: number, out: THREE.Quaternion) => {
+  const phi = latitude * DEG;
+  const lambda = longitude * DEG + rotation;
+  up.set(Math.cos(phi) * Math.cos(lambda), Math.sin(phi), -Math.cos(phi) * Math.sin(lambda));
+  east.set(-Math.sin(lambda), 0, -Math.cos(lambda));
+  south.crossVectors(east, up);
+  return out.setFromRotationMatrix(frameBasis.makeBasis(east, up, south));
+};
+
+const surfaceVertexShader = `
+  varying vec2 vUv;
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+  void main() {
+    vUv = uv;
+    vWorldNormal = normalize( mat3( modelMatrix ) * normal );
+    vec4 worldPosition = modelMatrix * vec4( position, 1.0 );
+    vWorldPosition = worldPosition.xyz;
+    gl_Position = projectionMatrix * viewMatrix * worldPosition;
+  }
+`;
+
+const surfaceFragmentShader = `
+  uniform sampler2D u_dayMap;
+  uniform sampler2D u_nightLights;
+  uniform sampler2D u_waterMask;
+  uniform sampler2D u_bumpMap;
+  uniform sampler2D u_clouds;
+  uniform vec3 u_sunDirection;
+  uniform float u_cloudOffset; // Cloud-map u at this surface point, relative to the surface map's
+  varying vec2 vUv;
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+
+  const float BUMP_STRENGTH = 4.0;
+  const float BUMP_TEXEL = 1.0 / 1024.0;
+
+  void main() {
+    vec3 normal = normalize( vWorldNormal );
+
+    // Bump from the height map's slope along the map's east (+u) and north (+v) directions
+    vec3 east = cross( vec3( 0.0, 1.0, 0.0 ), normal );
+    east = length( east ) > 1e-4 ? normalize( east ) : vec3( 1.0, 0.0, 0.0 );
+    vec3 north = cross( normal, east );
+    float height = texture2D( u_bumpMap, vUv ).r;
+    float slopeEast = texture2D( u_bumpMap, vUv + vec2( BUMP_TEXEL, 0.0 ) ).r - height;
+    float slopeNorth = texture2D( u_bumpMap, vUv + vec2( 0.0, BUMP_TEXEL ) ).r - height;
+    vec3 bumped = normalize( normal - BUMP_STRENGTH * ( slopeEast * east + slopeNorth * north ) );
+
+    // The terminator follows the smooth globe so relief doesn't speckle it
+    float sunAngle = dot( normal, u_sunDirection );
+    float daylight = smoothstep( -0.08, 0.18, sunAngle );
+    float cloud = texture2D( u_clouds, vec2( vUv.x + u_cloudOffset, vUv.y ) ).r;
+    float cloudShadow = 1.0 - 0.45 * cloud;
+
+    vec3 dayColor = texture2D( u_dayMap, vUv ).rgb;
+    vec3 day = dayColor * ( 0.03 + 1.2 * max( dot( bumped, u_sunDirection ), 0.0 ) ) * cloudShadow;
+
+    // Sun glint off open water only
+    vec3 viewDirection = normalize( cameraPosition - vWorldPosition );
+    vec3 halfway = normalize( u_sunDirection + viewDirection );
+    float water = texture2D( u_waterMask, vUv ).r;
+    vec3 glint = vec3( 1.0, 0.95, 0.85 ) * pow( max( dot( normal, halfway ), 0.0 ), 60.0 ) * water * 0.9 * cloudShadow;
+
+    // City lights show through gaps in the cloud on the night side
+    vec3 night = texture2D( u_nightLights, vUv ).rgb * 1.4 * ( 1.0 - 0.7 * cloud );
+
+    gl_FragColor = vec4( mix( night, day + glint, daylight ), 1.0 );
+    #include <tonemapping_fragment>
+  }
+`;
+
+// Clouds are lit from the same sun, fading out towards the night side instead of glowing there
+const cloudVertexShader = `
+  varying vec2 vUv;
+  varying vec3 vWorldNormal;
+  void main() {
+    vUv = uv;
+    vWorldNormal = normalize( mat3( modelMatrix ) * normal );
+    gl_Position = projectionMatrix * modelViewMatrix * vec4( position, 1.0 );
+  }
+`;
+
+const cloudFragmentShader = `
+  uniform sampler2D u_clouds;
+  uniform vec3 u_sunDirection;
+  varying vec2 vUv;
+  varying vec3 vWorldNormal;
+  void main() {
+    float cloud = texture2D( u_clouds, vUv ).r;
+    float light = 0.06 + 0.94 * smoothstep( -0.1, 0.25, dot( normalize( vWorldNormal ), u_sunDirection ) );
+    gl_FragColor = vec4( vec3( light ), cloud * 0.8 * light );
+  }
+`;
+
+// Back faces of a shell just outside the globe. Seen past the limb their normals tilt away from the
+// viewer by up to ~1/3 (for a shell 6% larger), so that tilt ramps the glow from the limb outwards
+const glowVertexShader = `
+  varying vec3 vNormal;
+  varying vec3 vWorldNormal;
+  void main() {
+    vNormal = normalize( normalMatrix * normal );
+    vWorldNormal = normalize( mat3( modelMatrix ) * normal );
+    gl_Position = projectionMatrix * modelViewMatrix * vec4( position, 1.0 );
+  }
+`;
+
+const glowFragmentShader = `
+  uniform vec3 u_sunDirection;
+  uniform vec3 u_color;
+  varying vec3 vNormal;
+  varying vec3 vWorldNormal;
+  void main() {
+    float rim = pow( clamp( -vNormal.z * 3.0, 0.0, 1.0 ), 2.0 );
+    float daylight = 0.15 + 0.85 * smoothstep( -0.35, 0.3, dot( vWorldNormal, u_sunDirection ) );
+    gl_FragColor = vec4( u_color, 1.0 ) * rim * daylight;
+  }
+`;
+
+export const createEarth = ({ radius, textures }: EarthOptions): Earth => {
+  const earthGroup = new THREE.Group();
+  // Bump and cloud lookups step across the date line
+  textures.bumpMap.wrapS = THREE.RepeatWrapping;
+  textures.clouds.wrapS = THREE.RepeatWrapping;
+  const earthMaterial = new THREE.ShaderMaterial({
+    uniforms: {
+      u_dayMap: { value: textures.map },
+      u_nightLights: { value: textures.nightLights },
+      u_waterMask: { value: textures.waterMask },
+      u_bumpMap: { value: textures.bumpMap },
+      u_clouds: { value: textures.clouds },
+      u_sunDirection: { value: new THREE.Vector3(0, 1, 0) },
+      u_cloudOffset: { value: 0 },
+    },
+    vertexShader: surfaceVertexShader,
+    fragmentShader: surfaceFragmentShader,
+  });
+  const earth = new THREE.Mesh(new THREE.SphereBufferGeometry(radius, 64, 64), earthMaterial);
+  earth.receiveShadow = true;
+  earthGroup.add(earth);
+
+  const cloudMaterial = new THREE.ShaderMaterial({
+    uniforms: { u_clouds: { value: textures.clouds }, u_sunDirection: { value: new THREE.Vector3(0, 1, 0) } },
+    vertexShader: cloudVertexShader,
+    fragmentShader: cloudFragmentShader,
+    transparent: true,
+    depthWrite: false,
+  });
+  const clouds = new THREE.Mesh(new THREE.SphereBufferGeometry(radius + 0.5, 64, 64), cloudMaterial);
+  earthGroup.add(clouds);
+
+  const glowMaterial = new THREE.ShaderMaterial({
+    uniforms: { u_sunDirection: { value: new THREE.Vector3(0, 1, 0) }, u_color: { value: new THREE.Color(0x5b9cff) } },
+    vertexShader: glowVertexShader,
+    fragmentShader: glowFragmentShader,
+    side: THREE.BackSide,
+    blending: THREE.AdditiveBlending,
+    transparent: true,
+    depthWrite: false,
+    fog: false,
+  });
+  const glow = new THREE.Mesh(new THREE.SphereBufferGeometry(radius * 1.06, 64, 64), glowMaterial);
+  earthGroup.add(glow);
+
+  return {
+    object: earthGroup,
+    surface: earth,
+    update: ({ visible, rotation, cloudRotation, sunDirection }) => {
+      earthGroup.visible = visible;
+      [earthMaterial, cloudMaterial, glowMaterial].forEach(material => material.uniforms.u_sunDirection.value.copy(sunDirection));
+      earthMaterial.uniforms.u_cloudOffset.value = (rotation - cloudRotation) / (Math.PI * 2);
+      earth.rotation.y = rotation;
+      clouds.rotation.y = cloudRotation;
+    },
+    dispose: () => disposeObject(earthGroup),
+  };
+};
@@ -0,0 +1,170 @@
+// Rocket exhaust plume: a pool of point-sprite particles simulated entirely in the vertex shader.
+// Each particle loops through spawn cycles; its age, trajectory and colour are closed-form functions of
+// the plume clock, the particle id and the seed, so the CPU only advances a uniform each frame and a
+// reset replays the plume exactly (used by exports).
+
+import * as THREE from 'three';
+import type { SceneBuilder } from './builder';
+import { disposeObject } from './builder';
+import { createParticleTexture } from './textures';
+
+export interface ExhaustOptions {
+  particleCount?: number;
+  seed?: number;
+  scale?: number; // Plume size relative to the first-stage plume
+}
+
+export interface ExhaustState {
+  deltaTime: number;
+  intensity: number; // 0 = engines off, 1 = full thrust
+  ambientPressure: number; // 1 = sea level, 0 = vacuum; the plume widens and shortens as it drops
+}
+
+export interface Exhaust extends SceneBuilder<ExhaustState> {
+  object: THREE.Points;
+  reset: (seed: number) => void;
+  snapshot: () => () => void; // Captures the plume clock; calling the result puts it back
+  setPointScale: (scale: number) => void; // Keeps sprite sizes proportional when rendering above screen resolution
+  setParticleFraction: (fraction: number) => void; // Draws only part of the pool, for lower quality settings
+}
+
+// Sprite brightness was tuned for this many particles; larger pools dim each sprite so the plume keeps its exposure
+const REFERENCE_PARTICLE_COUNT = 5001;
+
+// --- PARTICLE SHADERS ---
+const exhaustVertexShader = `
+  attribute float a_id;
+  uniform float u_time;
+  uniform float u_seed;
+  uniform float u_intensity;
+  uniform float u_pressure;
+  uniform float u_scale;
+  uniform float u_alphaScale;
+  uniform float u_pointScale;
+  uniform vec3 u_colorHot;
+  uniform vec3 u_colorWarm;
+  uniform vec3 u_colorCool;
+  varying vec3 v_color;
+  varying float v_alpha;
+
+  float hash( vec3 p ) {
+    p = fract( p * vec3( 0.1031, 0.1030, 0.0973 ) );
+    p += dot( p, p.yzx + 33.33 );
+    return fract( ( p.x + p.y ) * p.z );
+  }
+
+  void main() {
+    // Lifetime and phase are fixed per particle so its spawn cycles tile the plume clock without gaps
+    float lifetime = mix( 0.8, 1.5, hash( vec3( a_id, -1.0, u_seed ) ) );
+    float clock = u_time + hash( vec3( a_id, -2.0, u_seed ) ) * lifetime;
+    float cycle = floor( clock / lifetime );
+    float age = clock - cycle * lifetime;
+    float ageRatio = age / lifetime;
+
+    // Each cycle spawns (or stays dark) with probability equal to the engine intensity
+    if ( hash( vec3( a_id, cycle, u_seed ) ) >= u_intensity ) {
+      v_alpha = 0.0;
+      gl_PointSize = 0.0;
+      gl_Position = vec4( 2.0, 2.0, 2.0, 1.0 );
+      return;
+    }
+
+    // Vacuum expansion: lower ambient pressure spreads the plume sideways and shortens its core
+    float spread = mix( 5.0, 1.0, u_pressure );
+    float reach = mix( 0.45, 1.0, u_pressure );
+    vec3 start = vec3( hash( vec3( a_id, cycle, u_seed + 1.0 ) ) - 0.5, 0.0, hash( vec3( a_id, cycle, u_seed + 2.0 ) ) - 0.5 ) * 1.5 * spread;
+    vec3 velocity = vec3(
+      ( hash( vec3( a_id, cycle, u_seed + 3.0 ) ) - 0.5 ) * 8.0 * spread,
+      mix( -50.0, -80.0, hash( vec3( a_id, cycle, u_seed + 4.0 ) ) ) * reach,
+      ( hash( vec3( a_id, cycle, u_seed + 5.0 ) ) - 0.5 ) * 8.0 * spread
+    );
+    // Axial speed decays exponentially (drag); lateral drift is constant
+    const float drag = 0.6;
+    vec3 position = ( start + vec3( velocity.x * age, velocity.y * ( 1.0 - exp( -drag * age ) ) / drag, velocity.z * age ) ) * u_scale;
+
+    v_color = ageRatio < 0.3
+      ? mix( u_colorHot, u_colorWarm, ageRatio / 0.3 )
+      : mix( u_colorWarm, u_colorCool, ( ageRatio - 0.3 ) / 0.7 );
+    v_alpha = ( 1.0 - ageRatio * ageRatio ) * u_intensity * u_alphaScale;
+
+    vec4 mvPosition = modelViewMatrix * vec4( position, 1.0 );
+    float size = mix( 5.0, 20.0, ageRatio ) * u_intensity * u_scale * mix( 1.8, 1.0, u_pressure );
+    gl_PointSize = size * u_pointScale * ( 300.0 / -mvPosition.z );
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const exhaustFragmentShader = `
+  uniform sampler2D u_texture;
+  varying vec3 v_color;
+  varying float v_alpha;
+  void main() {
+    vec4 texColor = texture2D( u_texture, gl_PointCoord );
+    if (texColor.a < 0.1 || v_alpha <= 0.0) discard;
+    gl_FragColor = vec4( v_color, texColor.a * v_alpha );
+  }
+`;
+
+export const createExhaust = ({ particleCount = 50001, seed = 1, scale = 1 }: ExhaustOptions = {}): Exhaust => {
+  // Positions are computed in the shader; the attribute only sizes the draw call
+  const particleGeometry = new THREE.BufferGeometry();
+  const ids = new Float32Array(particleCount);
+  for (let i = 0; i < particleCount; i++) ids[i] = i;
+  particleGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(particleCount * 3), 3));
+  particleGeometry.setAttribute('a_id', new THREE.BufferAttribute(ids, 1));
+
+  const particleMaterial = new THREE.ShaderMaterial({
+    uniforms: {
+      u_texture: { value: createParticleTexture() },
+      u_time: { value: 0 },
+      u_seed: { value: seed },
+      u_intensity: { value: 0 },
+      u_pressure: { value: 1 },
+      u_scale: { value: scale },
+      u_alphaScale: { value: Math.min(1, REFERENCE_PARTICLE_COUNT / particleCount) },
+      u_pointScale: { value: 1 },
+      // Classic rocket exhaust: blue-white core, orange mid, deep red outer
+      u_colorHot: { value: new THREE.Color(0xadd8ff) },
+      u_colorWarm: { value: new THREE.Color(0xffa500) },
+      u_colorCool: { value: new THREE.Color(0xb22222) },
+    },
+    vertexShader: exhaustVertexShader,
+    fragmentShader: exhaustFragmentShader,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+    transparent: true,
+  });
+  const exhaustSystem = new THREE.Points(particleGeometry, particleMaterial);
+  exhaustSystem.frustumCulled = false; // The geometry's bounds don't reflect the simulated plume
+  const { uniforms } = particleMaterial;
+
+  return {
+    object: exhaustSystem,
+    update: ({ deltaTime, intensity, ambientPressure }) => {
+      uniforms.u_time.value += deltaTime;
+      uniforms.u_intensity.value = intensity;
+      uniforms.u_pressure.value = ambientPressure;
+      exhaustSystem.visible = intensity > 0;
+    },
+    reset: (nextSeed) => {
+      uniforms.u_seed.value = nextSeed;
+      uniforms.u_time.value = 0;
+    },
+    snapshot: () => {
+      const savedSeed = uniforms.u_seed.value;
+      const savedTime = uniforms.u_time.value;
+      return () => {
+        uniforms.u_seed.value = savedSeed;
+        uniforms.u_time.value = savedTime;
+      };
+    },
+    setPointScale: (scale) => { uniforms.u_pointScale.value = scale; },
+    setParticleFraction: (fraction) => {
+      // Particles are independent, so any prefix of the pool is an evenly thinned plume
+      const drawn = Math.max(1, Math.round(particleCount * Math.max(0, Math.min(1, fraction))));
+      particleGeometry.setDrawRange(0, drawn);
+      uniforms.u_alphaScale.value = Math.min(1, REFERENCE_PARTICLE_COUNT / drawn);
+    },
+    dispose: () => disposeObject(exhaustSystem),
+  };
+};
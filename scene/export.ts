@@ -0,0 +1,65 @@
+// Deterministic video export helpers.
+// ThreeScene steps the mission at a fixed timestep and hands each rendered frame to a canvas recorder,
+// which encodes WebM through MediaRecorder.
+
+import type { CameraAngle } from '../App';
+
+export interface VideoExportOptions {
+  width: number;
+  height: number;
+  fps: number;
+  cameraAngle: CameraAngle;
+  startProgress: number; // 0..1
+  endProgress: number; // 0..1
+}
+
+export interface ExportStatus {
+  state: 'idle' | 'recording' | 'done' | 'error';
+  frame: number;
+  totalFrames: number;
+  blob?: Blob;
+  error?: string;
+}
+
+export const EXPORT_PREROLL = 2; // Seconds simulated before the first frame so smoothing and the plume settle
+
+const pickMimeType = () => {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+};
+
+// Frames are pushed manually with captureFrame(); MediaRecorder timestamps them by wall-clock,
+// so the caller paces frames at 1/fps.
+export const createCanvasRecorder = (canvas: HTMLCanvasElement, fps: number) => {
+  if (typeof MediaRecorder === 'undefined' || !canvas.captureStream) {
+    throw new Error('Video export needs MediaRecorder and canvas capture support');
+  }
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as MediaStreamTrack & { requestFrame?: () => void };
+  const mimeType = pickMimeType();
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: Math.round(canvas.width * canvas.height * fps * 0.2),
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => { if (event.data.size > 0) chunks.push(event.data); };
+  recorder.start();
+
+  return {
+    captureFrame: () => track.requestFrame?.(),
+    finish: () => new Promise<Blob>((resolve) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: mimeType }));
+      recorder.stop();
+      stream.getTracks().forEach(t => t.stop());
+    }),
+  };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,286 @@
+// Launch pad ground effects: steam and smoke billowing out along the terrain, the water deluge spray and
+// dust kicked up around the pad's support pillars. Emission follows the engine intensity while the
+// exhaust still reaches the pad; once the rocket has climbed clear the clouds drift on and dissipate.
+// Each cloud is a small CPU particle pool with seeded spawns, so a reset replays it exactly (used by exports).
+
+import * as THREE from 'three';
+import type { SceneBuilder } from './builder';
+import { disposeObject } from './builder';
+import { groundLevel } from './launchSite';
+import { createParticleTexture } from './textures';
+import { createRandom } from '../utils/random';
+import type { RandomFn } from '../utils/random';
+
+export interface GroundEffectsOptions {
+  seed?: number;
+}
+
+export interface GroundEffectsState {
+  visible: boolean;
+  deltaTime: number;
+  intensity: number; // Main engine exhaust intensity, 0..1
+  rocketHeight: number; // Scene units of the rocket's base above the pad
+}
+
+export interface GroundEffects extends SceneBuilder<GroundEffectsState> {
+  object: THREE.Group;
+  reset: (seed: number) => void;
+  snapshot: () => () => void; // Captures the particles and spawn sequence; calling the result puts them back
+  setPointScale: (scale: number) => void; // Keeps sprite sizes proportional when rendering above screen resolution
+}
+
+interface EmitterConfig {
+  count: number;
+  rate: number; // Particles per second at full emission
+  lifetime: [number, number]; // s
+  size: [number, number]; // At birth and at death
+  colors: [number, number]; // At birth and at death
+  opacity: number;
+  drag: number; // Fraction of velocity lost per second
+  gravity: number;
+  ground: 'slide' | 'absorb'; // Clouds slide along the terrain; water soaks in
+  spawn: (random: RandomFn, position: THREE.Vector3, velocity: THREE.Vector3) => void;
+}
+
+// Exhaust stops reaching the pad between these rocket heights
+const PAD_CLEARANCE: [number, number] = [10, 40];
+const PILLAR_RADIUS = 22;
+
+const particleVertexShader = `
+  attribute float a_size;
+  attribute float a_alpha;
+  attribute vec3 a_color;
+  uniform float u_pointScale;
+  varying vec3 v_color;
+  varying float v_alpha;
+  void main() {
+    v_color = a_color;
+    v_alpha = a_alpha;
+    vec4 mvPosition = modelViewMatrix * vec4( position, 1.0 );
+    // Sprites shrink with the launch site when it is scaled down onto the globe
+    gl_PointSize = a_size * u_pointScale * length( modelMatrix[0].xyz ) * ( 300.0 / -mvPosition.z );
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const particleFragmentShader = `
+  uniform sampler2D u_texture;
+  varying vec3 v_color;
+  varying float v_alpha;
+  void main() {
+    vec4 texColor = texture2D( u_texture, gl_PointCoord );
+    if (v_alpha <= 0.0) discard;
+    gl_FragColor = vec4( v_color, texColor.a * v_alpha );
+  }
+`;
+
+const EMITTERS: EmitterConfig[] = [
+  // Steam and smoke: thrown out from the pad's rim, slowing as they roll over the terrain and greying as they cool
+  {
+    count: 1200,
+    rate: 180,
+    lifetime: [4, 7],
+    size: [8, 55],
+    colors: [0xf2f2f0, 0x8e8e8c],
+    opacity: 0.35,
+    drag: 0.45,
+    gravity: 0.8,
+    ground: 'slide',
+    spawn: (random, position, velocity) => {
+      const angle = random() * Math.PI * 2;
+      const radius = 18 + random() * 4;
+      const speed = 18 + random() * 22;
+      position.set(Math.cos(angle) * radius, 0.5 + random() * 2, Math.sin(angle) * radius);
+      velocity.set(Math.cos(angle) * speed, 3 + random() * 6, Math.sin(angle) * speed);
+    },
+  },
+  // Water deluge: jets around the flame trench arcing up and falling back
+  {
+    count: 1000,
+    rate: 600,
+    lifetime: [1, 1.6],
+    size: [1.5, 4],
+    colors: [0xe8f4ff, 0xbcd8f0],
+    opacity: 0.5,
+    drag: 0.3,
+    gravity: -25,
+    ground: 'absorb',
+    spawn: (random, position, velocity) => {
+      const angle = random() * Math.PI * 2;
+      const radius = 14 + random() * 4;
+      const speed = 6 + random() * 8;
+      position.set(Math.cos(angle) * radius, 0.8, Math.sin(angle) * radius);
+      velocity.set(Math.cos(angle) * speed, 14 + random() * 10, Math.sin(angle) * speed);
+    },
+  },
+  // Dust stirred up around the base of each support pillar
+  {
+    count: 400,
+    rate: 80,
+    lifetime: [3, 5],
+    size: [4, 26],
+    colors: [0xb59a74, 0x8a7a60],
+    opacity: 0.3,
+    drag: 0.6,
+    gravity: -1,
+    ground: 'slide',
+    spawn: (random, position, velocity) => {
+      const angle = Math.floor(random() * 4) * Math.PI / 2;
+      const x = Math.cos(angle) * PILLAR_RADIUS + (random() - 0.5) * 6;
+      const z = Math.sin(angle) * PILLAR_RADIUS + (random() - 0.5) * 6;
+      const speed = 4 + random() * 8;
+      position.set(x, groundLevel(x, z), z);
+      velocity.set(Math.cos(angle) * speed, 2 + random() * 4, Math.sin(angle) * speed);
+    },
+  },
+];
+
+const lerp = (start: number, end: number, alpha: number) => start * (1 - alpha) + end * alpha;
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+const createEmitter = (config: EmitterConfig, texture: THREE.Texture | null) => {
+  const { count } = config;
+  const positions = new Float32Array(count * 3);
+  const velocities = new Float32Array(count * 3);
+  const ages = new Float32Array(count).fill(Infinity);
+  const lifetimes = new Float32Array(count);
+  const colors = new Float32Array(count * 3);
+  const sizes = new Float32Array(count);
+  const alphas = new Float32Array(count);
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('a_color', new THREE.BufferAttribute(colors, 3));
+  geometry.setAttribute('a_size', new THREE.BufferAttribute(sizes, 1));
+  geometry.setAttribute('a_alpha', new THREE.BufferAttribute(alphas, 1));
+  const material = new THREE.ShaderMaterial({
+    uniforms: { u_texture: { value: texture }, u_pointScale: { value: 1 } },
+    vertexShader: particleVertexShader,
+    fragmentShader: particleFragmentShader,
+    depthWrite: false,
+    transparent: true,
+  });
+  const points = new THREE.Points(geometry, material);
+  points.frustumCulled = false; // Particles roam far beyond the initial bounds
+
+  const colorStart = new THREE.Color(config.colors[0]);
+  const colorEnd = new THREE.Color(config.colors[1]);
+  const tempColor = new THREE.Color();
+  const position = new THREE.Vector3();
+  const velocity = new THREE.Vector3();
+  let pending = 0;
+  let next = 0;
+
+  const step = (random: RandomFn, deltaTime: number, emission: number) => {
+    // Spawn into the oldest slots first
+    pending += config.rate * emission * deltaTime;
+    for (; pending >= 1; pending--) {
+      const i = next;
+      next = (next + 1) % count;
+      config.spawn(random, position, velocity);
+      position.toArray(positions, i * 3);
+      velocity.toArray(velocities, i * 3);
+      ages[i] = 0;
+      lifetimes[i] = lerp(config.lifetime[0], config.lifetime[1], random());
+    }
+
+    const damping = Math.exp(-config.drag * deltaTime);
+    for (let i = 0; i < count; i++) {
+      ages[i] += deltaTime;
+      const ageRatio = ages[i] / lifetimes[i];
+      if (!(ageRatio < 1)) {
+        alphas[i] = 0;
+        continue;
+      }
+      const j = i * 3;
+      velocities[j] *= damping;
+      velocities[j + 1] = velocities[j + 1] * damping + config.gravity * deltaTime;
+      velocities[j + 2] *= damping;
+      positions[j] += velocities[j] * deltaTime;
+      positions[j + 1] += velocities[j + 1] * deltaTime;
+      positions[j + 2] += velocities[j + 2] * deltaTime;
+
+      const size = lerp(config.size[0], config.size[1], ageRatio);
+      const floor = groundLevel(positions[j], positions[j + 2]);
+      if (config.ground === 'absorb' && positions[j + 1] < floor) {
+        ages[i] = Infinity;
+        alphas[i] = 0;
+        continue;
+      }
+      if (config.ground === 'slide' && positions[j + 1] < floor + size * 0.15) {
+        positions[j + 1] = floor + size * 0.15;
+        velocities[j + 1] = Math.max(0, velocities[j + 1]);
+      }
+
+      sizes[i] = size;
+      tempColor.copy(colorStart).lerp(colorEnd, ageRatio);
+      colors[j] = tempColor.r;
+      colors[j + 1] = tempColor.g;
+      colors[j + 2] = tempColor.b;
+      alphas[i] = config.opacity * Math.min(1, ageRatio * 8) * (1 - ageRatio * ageRatio);
+    }
+
+    geometry.attributes.position.needsUpdate = true;
+    geometry.attributes.a_color.needsUpdate = true;
+    geometry.attributes.a_size.needsUpdate = true;
+    geometry.attributes.a_alpha.needsUpdate = true;
+  };
+
+  const clear = () => {
+    ages.fill(Infinity);
+    alphas.fill(0);
+    geometry.attributes.a_alpha.needsUpdate = true;
+    pending = 0;
+    next = 0;
+  };
+
+  const snapshot = () => {
+    const buffers = [positions, velocities, ages, lifetimes, colors, sizes, alphas];
+    const saved = buffers.map(buffer => buffer.slice());
+    const [savedPending, savedNext] = [pending, next];
+    return () => {
+      buffers.forEach((buffer, i) => buffer.set(saved[i]));
+      [pending, next] = [savedPending, savedNext];
+      Object.values(geometry.attributes).forEach(attribute => { attribute.needsUpdate = true; });
+    };
+  };
+
+  return { points, material, step, clear, snapshot };
+};
+
+export const createGroundEffects = ({ seed = 1 }: GroundEffectsOptions = {}): GroundEffects => {
+  const effectsGroup = new THREE.Group();
+  const texture = createParticleTexture();
+  const emitters = EMITTERS.map(config => createEmitter(config, texture));
+  emitters.forEach(emitter => effectsGroup.add(emitter.points));
+  let random = createRandom(seed);
+
+  return {
+    object: effectsGroup,
+    update: ({ visible, deltaTime, intensity, rocketHeight }) => {
+      effectsGroup.visible = visible;
+      if (!visible) return;
+      const emission = intensity * (1 - smoothstep(PAD_CLEARANCE[0], PAD_CLEARANCE[1], rocketHeight));
+      emitters.forEach(emitter => emitter.step(random, deltaTime, emission));
+    },
+    reset: (nextSeed) => {
+      random = createRandom(nextSeed);
+      emitters.forEach(emitter => emitter.clear());
+    },
+    snapshot: () => {
+      // A reset replaces the generator rather than advancing it, so holding on to it keeps its place
+      const savedRandom = random;
+      const restoreEmitters = emitters.map(emitter => emitter.snapshot());
+      return () => {
+        random = savedRandom;
+        restoreEmitters.forEach(restore => restore());
+      };
+    },
+    setPointScale: (scale) => { emitters.forEach(emitter => { emitter.material.uniforms.u_pointScale.value = scale; }); },
+    dispose: () => disposeObject(effectsGroup),
+  };
+};
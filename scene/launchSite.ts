@@ -0,0 +1,493 @@
+// Ground launch environment: rolling terrain, launch pad, trees, shrubs, rocks, distant mountains, drifting
+// clouds and the daylight rig that lights them. The sky itself is drawn by the atmosphere dome.
+// Scenery is seeded and instanced: a few draw calls for thousands of plants and rocks seated on the hills.
+// For the climb to orbit the whole site can be wrapped onto the globe: `globeMorph` bends the ground onto
+// a sphere of growing curvature while it shrinks and rises, until it lies on the globe's surface around
+// the pad and fades out into the Earth map beneath. `orientation` then turns the whole site about the
+// globe's centre so the pad lands on the chosen launch site rather than the pole.
+
+import * as THREE from 'three';
+import type { SceneBuilder } from './builder';
+import { disposeObject } from './builder';
+import { createRandom } from '../utils/random';
+import type { RandomFn } from '../utils/random';
+
+export interface LaunchSiteOptions {
+  treeCount?: number;
+  shrubCount?: number;
+  rockCount?: number;
+  mountainCount?: number;
+  cloudCount?: number;
+  globeRadius?: number; // Radius of the Earth globe the site wraps onto
+  terrainSegments?: number; // Per side of the ground plane
+  seed?: number; // Lays out the scenery; the same seed grows the same landscape
+}
+
+export interface LaunchSiteState {
+  visible: boolean;
+  deltaTime: number;
+  globeMorph: number; // 0 = flat site at the scene origin, 1 = wrapped onto the top of the globe
+  orientation: THREE.Quaternion; // Local vertical frame of the site; identity keeps it upright on the +Y axis
+}
+
+export interface LaunchSite extends SceneBuilder<LaunchSiteState> {
+  object: THREE.Group;
+  landingPad: THREE.Vector3; // Centre of the booster landing pad's deck
+  sunDirection: THREE.Vector3; // Unit vector towards the ground sun light
+  reset: () => void; // Returns drifting clouds to their starting positions
+  snapshot: () => () => void; // Captures the cloud drift; calling the result puts it back
+  setTerrainSegments: (segments: number) => void; // Re-tessellates the ground plane, for quality settings
+  setSceneryDensity: (fraction: number) => void; // Draws only this share of the trees, shrubs and rocks
+}
+
+// Layered smooth waves for natural rolling hills; `x` and `z` are world coordinates on the ground plane
+const terrainHeight = (x: number, z: number) => {
+  const dist = Math.sqrt(x * x + z * z);
+  return Math.sin(x * 0.008) * 4 +
+    Math.cos(z * 0.008) * 4 +
+    Math.sin(x * 0.02) * 1.5 +
+    Math.cos(z * 0.02) * 1.5 +
+    Math.sin(dist * 0.005) * 2;
+};
+
+// World height of the ground surface; the terrain mesh sits 2 units below its wave heights
+export const groundLevel = (x: number, z: number) => terrainHeight(x, z) - 2;
+
+// Radius, in site units, of the sphere the terrain is finally bent onto; the site is then scaled down until
+// that sphere matches the globe, leaving the 2000-unit site as a cap about 30 degrees across
+const WRAP_RADIUS = 4000;
+
+interface Bendable {
+  object: THREE.Object3D;
+  flat: THREE.Vector3; // Position on the flat site
+  quaternion: THREE.Quaternion;
+}
+
+// Bends a flat-site point onto a sphere of `curvature` (1 / radius, in site units) touching the ground
+// plane (y = -2) under the pad; heights above the plane are kept along the bent normal
+const bendPoint = (flat: THREE.Vector3, curvature: number, out: THREE.Vector3) => {
+  const distance = Math.hypot(flat.x, flat.z);
+  if (curvature < 1e-9 || distance < 1e-6) return out.copy(flat);
+  const height = flat.y + 2;
+  const angle = distance * curvature;
+  const along = Math.sin(angle) / curvature + height * Math.sin(angle);
+  return out.set(
+    (flat.x / distance) * along,
+    -2 + height * Math.cos(angle) - (1 - Math.cos(angle)) / curvature,
+    (flat.z / distance) * along,
+  );
+};
+
+// The same bend for terrain vertices, in the plane's own frame (x, -z on the ground; height along +z)
+const TERRAIN_BEND_NORMAL = `
+  #include <beginnormal_vertex>
+  float bendDistance = length( position.xy );
+  if ( u_curvature > 1e-9 && bendDistance > 1e-6 ) {
+    vec2 bendDirection = position.xy / bendDistance;
+    float bendAngle = bendDistance * u_curvature;
+    float radial = dot( objectNormal.xy, bendDirection );
+    float tilted = radial * cos( bendAngle ) + objectNormal.z * sin( bendAngle );
+    objectNormal.xy += bendDirection * ( tilted - radial );
+    objectNormal.z = objectNormal.z * cos( bendAngle ) - radial * sin( bendAngle );
+  }
+`;
+
+const TERRAIN_BEND_POSITION = `
+  #include <begin_vertex>
+  if ( u_curvature > 1e-9 && bendDistance > 1e-6 ) {
+    vec2 bendDirection = position.xy / bendDistance;
+    float bendAngle = bendDistance * u_curvature;
+    float height = position.z;
+    transformed.xy = bendDirection * ( sin( bendAngle ) / u_curvature + height * sin( bendAngle ) );
+    transformed.z = height * cos( bendAngle ) - ( 1.0 - cos( bendAngle ) ) / u_curvature;
+  }
+`;
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Return-to-launch-site landing zone; scenery keeps clear of it
+const LANDING_PAD_XZ: [number, number] = [215, 125];
+
+// --- Instanced scenery ---
+// Each kind of scenery is one InstancedMesh per part (trunk, crown...), all parts sharing the instance transforms
+
+const SITE_CLEARANCE = 70; // Keeps scenery off the launch pad apron
+const LANDING_CLEARANCE = 40;
+const SCENERY_EXTENT = 950; // Half-width of the square scenery is scattered over, inside the ground plane
+const FOLIAGE_COLORS = [0x2d5016, 0x36601c, 0x27461a, 0x445f20].map(color => new THREE.Color(color));
+const ROCK_COLORS = [0x7a776f, 0x8a857a, 0x66635d].map(color => new THREE.Color(color));
+const UP = new THREE.Vector3(0, 1, 0);
+
+interface ScatterPart {
+  geometry: THREE.BufferGeometry; // Modelled standing on the origin
+  material: THREE.Material;
+  tinted: boolean; // Takes each instance's colour
+}
+
+interface Placement {
+  position: THREE.Vector3; // On the flat site
+  rotation: THREE.Quaternion;
+  scale: THREE.Vector3;
+  color?: THREE.Color;
+}
+
+interface PlacementShape {
+  scale: [number, number, number];
+  color?: THREE.Color;
+  tumble?: boolean; // Tilts the instance off upright as well as turning it
+}
+
+interface Scatter {
+  meshes: THREE.InstancedMesh[];
+  placements: Placement[];
+}
+
+const pick = <T,>(random: RandomFn, items: T[]) => items[Math.floor(random() * items.length)];
+
+const isClear = (x: number, z: number) =>
+  Math.hypot(x, z) > SITE_CLEARANCE &&
+  Math.hypot(x - LANDING_PAD_XZ[0], z - LANDING_PAD_XZ[1]) > LANDING_CLEARANCE &&
+  Math.max(Math.abs(x), Math.abs(z)) < SCENERY_EXTENT;
+
+// Rejection-samples up to `count` spots from `spot`, keeping each with probability `density` of its terrain
+// height, and seats the survivors on the hills
+const placeOnTerrain = (random: RandomFn, count: number, spot: () => number[], density: (height: number) => number, shape: () => PlacementShape) => {
+  const placements: Placement[] = [];
+  const euler = new THREE.Euler();
+  for (let attempt = 0; placements.length < count && attempt < count * 20; attempt++) {
+    const [x, z] = spot();
+    if (!isClear(x, z) || random() >= density(terrainHeight(x, z))) continue;
+    const { scale, color, tumble = false } = shape();
+    const lean = tumble ? 0.5 : 0;
+    euler.set((random() - 0.5) * lean, random() * Math.PI * 2, (random() - 0.5) * lean);
+    placements.push({
+      position: new THREE.Vector3(x, groundLevel(x, z) - 0.2, z),
+      rotation: new THREE.Quaternion().setFromEuler(euler),
+      scale: new THREE.Vector3(...scale),
+      color,
+    });
+  }
+  return placements;
+};
+
+const createScatter = (parts: ScatterPart[], castShadow: boolean, placements: Placement[]): Scatter => {
+  const meshes = parts.map(({ geometry, material, tinted }) => {
+    const mesh = new THREE.InstancedMesh(geometry, material, placements.length);
+    mesh.castShadow = castShadow;
+    mesh.receiveShadow = true;
+    mesh.frustumCulled = false; // Bounds are those of a single instance at the origin
+    if (tinted) placements.forEach(({ color }, i) => { if (color) mesh.setColorAt(i, color); });
+    return mesh;
+  });
+  const scatter = { meshes, placements };
+  bendScatter(scatter, 0);
+  return scatter;
+};
+
+const scatterMatrix = new THREE.Matrix4();
+const scatterPosition = new THREE.Vector3();
+const scatterRotation = new THREE.Quaternion();
+const scatterAxis = new THREE.Vector3();
+
+// Places every instance on the site bent to `curvature`, tilted with the ground beneath it
+const bendScatter = ({ meshes, placements }: Scatter, curvature: number) => {
+  placements.forEach(({ position, rotation, scale }, i) => {
+    bendPoint(position, curvature, scatterPosition);
+    const distance = Math.hypot(position.x, position.z);
+    scatterAxis.set(position.z / distance, 0, -position.x / distance);
+    scatterRotation.setFromAxisAngle(scatterAxis, distance * curvature).multiply(rotation);
+    scatterMatrix.compose(scatterPosition, scatterRotation, scale);
+    meshes.forEach(mesh => mesh.setMatrixAt(i, scatterMatrix));
+  });
+  meshes.forEach(mesh => { mesh.instanceMatrix.needsUpdate = true; });
+};
+
+// Flat 2000-unit ground plane displaced into the rolling hills
+const createTerrainGeometry = (segments: number) => {
+  const geometry = new THREE.PlaneGeometry(2000, 2000, segments, segments);
+  const positions = geometry.attributes.position.array as Float32Array;
+  for (let i = 0; i < positions.length; i += 3) {
+    // The plane is laid flat below, which maps its local y onto world -z
+    positions[i + 2] = terrainHeight(positions[i], -positions[i + 1]);
+  }
+  geometry.computeVertexNormals();
+  return geometry;
+};
+
+export const createLaunchSite = ({ treeCount = 2000, shrubCount = 3000, rockCount = 600, mountainCount = 12, cloudCount = 25, globeRadius = 50, terrainSegments: initialSegments = 200, seed = 1 }: LaunchSiteOptions = {}): LaunchSite => {
+  const groundGroup = new THREE.Group();
+  
+  // Ground terrain with smoother rolling hills using layered noise
+  let terrainSegments = initialSegments;
+  const terrainMaterial = new THREE.MeshStandardMaterial({ 
+    color: 0x3a6b1f,
+    roughness: 0.95,
+    metalness: 0.0
+  });
+  const curvatureUniform = { value: 0 };
+  terrainMaterial.onBeforeCompile = (shader) => {
+    shader.uniforms.u_curvature = curvatureUniform;
+    shader.vertexShader = `uniform float u_curvature;\n${shader.vertexShader}`
+      .replace('#include <beginnormal_vertex>', TERRAIN_BEND_NORMAL)
+      .replace('#include <begin_vertex>', TERRAIN_BEND_POSITION);
+  };
+  const terrain = new THREE.Mesh(createTerrainGeometry(terrainSegments), terrainMaterial);
+  terrain.frustumCulled = false; // Bounds are those of the flat plane
+  terrain.rotation.x = -Math.PI / 2;
+  terrain.position.y = -2;
+  terrain.receiveShadow = true;
+  groundGroup.add(terrain);
+  
+  // Launch pad with detailed structure
+  const launchPadBase = new THREE.Mesh(
+    new THREE.CylinderGeometry(25, 28, 2, 32),
+    new THREE.MeshStandardMaterial({ color: 0x555555, roughness: 0.7, metalness: 0.3 })
+  );
+  launchPadBase.position.y = -2;
+  launchPadBase.castShadow = true;
+  launchPadBase.receiveShadow = true;
+  groundGroup.add(launchPadBase);
+  
+  const launchPadTop = new THREE.Mesh(
+    new THREE.CylinderGeometry(18, 20, 1.5, 32),
+    new THREE.MeshStandardMaterial({ color: 0x666666, roughness: 0.6, metalness: 0.4 })
+  );
+  launchPadTop.position.y = -0.25;
+  launchPadTop.castShadow = true;
+  launchPadTop.receiveShadow = true;
+  groundGroup.add(launchPadTop);
+  
+  // Support pillars
+  for (let i = 0; i < 4; i++) {
+    const pillar = new THREE.Mesh(
+      new THREE.CylinderGeometry(1.5, 1.5, 15, 8),
+      new THREE.MeshStandardMaterial({ color: 0x888888, roughness: 0.6, metalness: 0.5 })
+    );
+    const angle = (i / 4) * Math.PI * 2;
+    pillar.position.x = Math.cos(angle) * 22;
+    pillar.position.z = Math.sin(angle) * 22;
+    pillar.position.y = -9;
+    pillar.castShadow = true;
+    groundGroup.add(pillar);
+  }
+  
+  // Booster landing pad: a raised concrete deck with a painted ring and cross
+  const [padX, padZ] = LANDING_PAD_XZ;
+  const padGround = groundLevel(padX, padZ);
+  const landingPad = new THREE.Vector3(padX, padGround + 3, padZ);
+  const landingDeck = new THREE.Mesh(
+    new THREE.CylinderGeometry(16, 18, 12, 48),
+    new THREE.MeshStandardMaterial({ color: 0x8a8a86, roughness: 0.85, metalness: 0.05 })
+  );
+  landingDeck.position.set(padX, landingPad.y - 6, padZ);
+  landingDeck.receiveShadow = true;
+  groundGroup.add(landingDeck);
+  const markingMaterial = new THREE.MeshStandardMaterial({ color: 0xf2c200, roughness: 0.6 });
+  const landingRing = new THREE.Mesh(new THREE.RingGeometry(11, 12.5, 48), markingMaterial);
+  landingRing.rotation.x = -Math.PI / 2;
+  landingRing.position.set(padX, landingPad.y + 0.02, padZ);
+  groundGroup.add(landingRing);
+  for (let i = 0; i < 2; i++) {
+    const bar = new THREE.Mesh(new THREE.PlaneGeometry(14, 1.6), markingMaterial);
+    bar.rotation.set(-Math.PI / 2, 0, Math.PI / 4 + i * Math.PI / 2);
+    bar.position.set(padX, landingPad.y + 0.03, padZ);
+    groundGroup.add(bar);
+  }
+
+  // Seeded scenery: the same seed always grows the same landscape
+  const random = createRandom(seed);
+  const sceneryGroup = new THREE.Group(); // Bent per instance, so it stays out of the bendables below
+  groundGroup.add(sceneryGroup);
+  const scatters: Scatter[] = [];
+  const addScatter = (parts: ScatterPart[], castShadow: boolean, placements: Placement[]) => {
+    const scatter = createScatter(parts, castShadow, placements);
+    scatter.meshes.forEach(mesh => sceneryGroup.add(mesh));
+    scatters.push(scatter);
+  };
+  const trunk = { geometry: new THREE.CylinderGeometry(0.6, 1.0, 10, 6).translate(0, 5, 0), material: new THREE.MeshStandardMaterial({ color: 0x4a3820, roughness: 0.95 }), tinted: false };
+  const foliageMaterial = new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.85 });
+  const rockMaterial = new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.9 });
+  const foliageShape = (size: number): PlacementShape => ({ scale: [size, size, size], color: pick(random, FOLIAGE_COLORS) });
+
+  // Trees gather in clusters on the lower ground and thin out towards the crests; a third are pines
+  const clusters = Array.from({ length: Math.max(1, Math.round(treeCount / 150)) }, () => {
+    const angle = random() * Math.PI * 2;
+    const radius = 180 + random() * 520;
+    return [Math.cos(angle) * radius, Math.sin(angle) * radius];
+  });
+  const treeSpot = () => {
+    const [cx, cz] = pick(random, clusters);
+    const angle = random() * Math.PI * 2;
+    const offset = Math.sqrt(-2 * Math.log(1 - random())) * 45; // Denser towards the cluster centre
+    return [cx + Math.cos(angle) * offset, cz + Math.sin(angle) * offset];
+  };
+  const trees = placeOnTerrain(random, treeCount, treeSpot, height => 1 - smoothstep(3, 11, height), () => foliageShape(0.7 + random() * 0.8));
+  const pineCount = Math.round(trees.length / 3);
+  addScatter([trunk, { geometry: new THREE.ConeGeometry(3.5, 10, 8).translate(0, 13, 0), material: foliageMaterial, tinted: true }], true, trees.slice(0, pineCount));
+  addScatter([trunk, { geometry: new THREE.IcosahedronGeometry(3.2, 1).scale(1, 1.3, 1).translate(0, 12, 0), material: foliageMaterial, tinted: true }], true, trees.slice(pineCount));
+
+  // Shrubs grow anywhere clear of the pads; rocks break through on the crests
+  const anywhere = () => [(random() - 0.5) * 2 * SCENERY_EXTENT, (random() - 0.5) * 2 * SCENERY_EXTENT];
+  addScatter([{ geometry: new THREE.IcosahedronGeometry(1, 0).scale(1, 0.7, 1).translate(0, 0.4, 0), material: foliageMaterial, tinted: true }], false,
+    placeOnTerrain(random, shrubCount, anywhere, () => 1, () => {
+      const width = 1.2 + random() * 1.4;
+      return { scale: [width, 0.8 + random() * 0.8, width], color: pick(random, FOLIAGE_COLORS) };
+    }));
+  addScatter([{ geometry: new THREE.DodecahedronGeometry(1, 0).translate(0, 0.2, 0), material: rockMaterial, tinted: true }], true,
+    placeOnTerrain(random, rockCount, anywhere, height => 0.15 + 0.85 * smoothstep(0, 8, height), () => {
+      const size = 0.8 + random() * 2.2;
+      return { scale: [size, size * (0.5 + random() * 0.4), size], color: pick(random, ROCK_COLORS), tumble: true };
+    }));
+
+  // Mountains ring the site in the distance, partly sunk into the ground, with snow caps
+  const mountains = Array.from({ length: mountainCount }, (_, i): Placement => {
+    const angle = (i / mountainCount) * Math.PI * 2 + (random() - 0.5) * 0.3;
+    const radius = 650 + random() * 150;
+    const x = Math.cos(angle) * radius;
+    const z = Math.sin(angle) * radius;
+    const width = 60 + random() * 40;
+    const height = 160 + random() * 100;
+    return {
+      position: new THREE.Vector3(x, groundLevel(x, z) - height * 0.25, z),
+      rotation: new THREE.Quaternion().setFromAxisAngle(UP, random() * Math.PI * 2),
+      scale: new THREE.Vector3(width, height, width),
+    };
+  });
+  addScatter([
+    { geometry: new THREE.ConeGeometry(1, 1, 6).translate(0, 0.5, 0), material: new THREE.MeshStandardMaterial({ color: 0x4a4a4a, roughness: 0.95 }), tinted: false },
+    // Sits on the top of the mountain cone, just proud of its faces
+    { geometry: new THREE.ConeGeometry(0.37, 0.37, 6).translate(0, 0.82, 0), material: new THREE.MeshStandardMaterial({ color: 0xe8e8e8, roughness: 0.7 }), tinted: false },
+  ], false, mountains);
+
+  // Clouds with multiple puffs for realistic shapes
+  const cloudMaterial = new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 1.0, transparent: true, opacity: 0.8, fog: true });
+  const puffGeometry = new THREE.SphereGeometry(1, 8, 8);
+  const cloudGroups: THREE.Group[] = [];
+  for (let i = 0; i < cloudCount; i++) {
+    const cloudGroup = new THREE.Group();
+    const puffCount = 3 + Math.floor(random() * 3);
+    for (let j = 0; j < puffCount; j++) {
+      const puff = new THREE.Mesh(puffGeometry, cloudMaterial);
+      puff.scale.setScalar(15 + random() * 15);
+      puff.position.set((random() - 0.5) * 50, (random() - 0.5) * 10, (random() - 0.5) * 20);
+      cloudGroup.add(puff);
+    }
+    cloudGroup.position.set((random() - 0.5) * 1200, 80 + random() * 120, (random() - 0.5) * 1200);
+    cloudGroups.push(cloudGroup);
+    groundGroup.add(cloudGroup);
+  }
+  
+  // Sun light for ground scene with warmer tone
+  const sunLight = new THREE.DirectionalLight(0xfff4e6, 3.0);
+  sunLight.position.set(500, 800, 300);
+  sunLight.castShadow = true;
+  sunLight.shadow.mapSize.set(2048, 2048);
+  sunLight.shadow.camera.left = -500;
+  sunLight.shadow.camera.right = 500;
+  sunLight.shadow.camera.top = 500;
+  sunLight.shadow.camera.bottom = -500;
+  sunLight.shadow.bias = -0.0001;
+  groundGroup.add(sunLight, sunLight.target); // Targeting the site's own origin keeps the sun's direction as the site moves
+  
+  // Ambient ground light for softer shadows
+  const groundAmbient = new THREE.AmbientLight(0x87CEEB, 0.6);
+  groundGroup.add(groundAmbient);
+  
+  // Ground hemisphere light for natural outdoor lighting
+  const groundHemi = new THREE.HemisphereLight(0x87CEEB, 0x3a6b1f, 0.8);
+  groundGroup.add(groundHemi);
+
+  const cloudStartX = cloudGroups.map(g => g.position.x);
+
+  // Everything standing on the site follows the bend; the terrain bends in its shader and the scenery per instance
+  const lights: THREE.Light[] = [sunLight, groundAmbient, groundHemi];
+  const bendables: Bendable[] = groundGroup.children
+    .filter(child => child !== terrain && child !== sceneryGroup && child !== sunLight.target && !lights.includes(child as THREE.Light))
+    .map(object => ({ object, flat: object.position.clone(), quaternion: object.quaternion.clone() }));
+  const drifting = bendables.filter(({ object }) => cloudGroups.includes(object as THREE.Group));
+
+  // Fading hands the wrapped site over to the Earth map; base opacities and intensities are what it fades from
+  const fadeMaterials = new Map<THREE.Material, number>();
+  groundGroup.traverse((child: THREE.Object3D) => {
+    if (child instanceof THREE.Mesh && child.material instanceof THREE.Material) fadeMaterials.set(child.material, child.material.opacity);
+  });
+  const lightIntensities = lights.map(light => light.intensity);
+  const tilt = new THREE.Quaternion();
+  const axis = new THREE.Vector3();
+  let rise = 0; // Height of the site's origin along its local vertical
+  const finalScale = (globeRadius + 0.2) / WRAP_RADIUS;
+
+  const applyMorph = (morph: number) => {
+    // Zooms out geometrically while the curvature tightens and the pad rises to the globe's surface
+    const scale = Math.pow(finalScale, morph);
+    const curvature = morph > 0 ? (scale * morph * morph) / (globeRadius + 0.2) : 0;
+    groundGroup.scale.setScalar(scale);
+    rise = (globeRadius + 0.2 + 2 * finalScale) * smoothstep(0, 0.6, morph);
+    curvatureUniform.value = curvature;
+    scatters.forEach(scatter => bendScatter(scatter, curvature));
+
+    bendables.forEach(({ object, flat, quaternion }) => {
+      bendPoint(flat, curvature, object.position);
+      const distance = Math.hypot(flat.x, flat.z);
+      if (distance < 1e-6) return;
+      axis.set(flat.z / distance, 0, -flat.x / distance);
+      object.quaternion.copy(tilt.setFromAxisAngle(axis, distance * curvature).multiply(quaternion));
+    });
+
+    const fade = 1 - smoothstep(0.85, 1, morph);
+    fadeMaterials.forEach((opacity, material) => {
+      const transparent = opacity < 1 || fade < 1;
+      if (material.transparent !== transparent) {
+        material.transparent = transparent;
+        material.needsUpdate = true;
+      }
+      material.opacity = opacity * fade;
+    });
+    lights.forEach((light, i) => { light.intensity = lightIntensities[i] * fade; });
+  };
+
+  let currentMorph = -1;
+  return {
+    object: groundGroup,
+    landingPad,
+    sunDirection: sunLight.position.clone().normalize(),
+    update: ({ visible, deltaTime, globeMorph, orientation }) => {
+      groundGroup.visible = visible;
+      if (!visible) return;
+      // Animate ground clouds drifting
+      drifting.forEach(({ object, flat }) => {
+        flat.x += deltaTime * 2;
+        if (flat.x > 700) flat.x = -700;
+        bendPoint(flat, curvatureUniform.value, object.position);
+      });
+      if (globeMorph !== currentMorph) {
+        currentMorph = globeMorph;
+        applyMorph(globeMorph);
+      }
+      groundGroup.position.set(0, rise, 0).applyQuaternion(orientation);
+      groundGroup.quaternion.copy(orientation);
+    },
+    reset: () => { drifting.forEach(({ flat }, i) => { flat.x = cloudStartX[i]; }); },
+    snapshot: () => {
+      const saved = drifting.map(({ flat }) => flat.x);
+      return () => { drifting.forEach(({ flat }, i) => { flat.x = saved[i]; }); };
+    },
+    setTerrainSegments: (segments) => {
+      if (segments === terrainSegments) return;
+      terrainSegments = segments;
+      terrain.geometry.dispose();
+      terrain.geometry = createTerrainGeometry(segments);
+    },
+    // Placements are in random order, so drawing the first part of each thins the scenery evenly
+    setSceneryDensity: (fraction) => {
+      scatters.forEach(({ meshes, placements }) => {
+        const count = Math.round(placements.length * Math.max(0, Math.min(1, fraction)));
+        meshes.forEach(mesh => { mesh.count = count; });
+      });
+    },
+    dispose: () => disposeObject(groundGroup),
+  };
+};
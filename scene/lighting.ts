@@ -0,0 +1,75 @@
+// Space lighting rig: hemisphere, key ("sun"), cool fill, rim and ambient lights, plus a procedural
+// gradient environment map for metal reflections.
+// Tuning tips:
+// - Overall scene brightness: increase renderer.toneMappingExposure
+// - Stronger reflections: raise envMapIntensity on the metal materials
+// - Softer contrast: bump ambient light intensity or hemisphereLight intensity
+// - More dramatic edges: increase rimLight intensity or move its position further behind Z+
+
+import * as THREE from 'three';
+import type { SceneBuilder } from './builder';
+
+export interface LightingRig extends SceneBuilder<void> {
+  object: THREE.Group;
+  environment: THREE.Texture | null; // Assign to scene.environment
+  sunDirection: THREE.Vector3; // Unit vector towards the key light
+}
+
+// Procedural gradient environment for reflection highlights
+const createEnvironmentMap = (renderer: THREE.WebGLRenderer) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512; canvas.height = 256;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const g = ctx.createLinearGradient(0, 0, 0, 256);
+  g.addColorStop(0, '#5d6d80');
+  g.addColorStop(0.55, '#1a2430');
+  g.addColorStop(1, '#05070b');
+  ctx.fillStyle = g; ctx.fillRect(0, 0, 512, 256);
+  const tex = new THREE.CanvasTexture(canvas);
+  const pmrem = new THREE.PMREMGenerator(renderer);
+  const envRT = pmrem.fromEquirectangular(tex);
+  tex.dispose(); pmrem.dispose();
+  return envRT.texture;
+};
+
+export const createLightingRig = (renderer: THREE.WebGLRenderer): LightingRig => {
+  const rig = new THREE.Group();
+
+  // Goal: brighter readable rocket with metallic sheen and subtle rim separation.
+  const hemisphereLight = new THREE.HemisphereLight(0xbfd5ff, 0x101520, 1.2); // reduced for darker Earth
+  rig.add(hemisphereLight);
+
+  // Key ("sun") directional
+  const keyLight = new THREE.DirectionalLight(0xffe2c4, 4.5);
+  keyLight.position.set(-60, 80, 45);
+  keyLight.castShadow = true;
+  keyLight.shadow.mapSize.set(2048, 2048);
+  keyLight.shadow.camera.near = 1;
+  keyLight.shadow.camera.far = 600;
+  rig.add(keyLight);
+
+  // Fill light (cool) to lift dark side
+  const fillLight = new THREE.DirectionalLight(0x6fa3ff, 2.5);
+  fillLight.position.set(70, 35, -40);
+  rig.add(fillLight);
+
+  // Rim/back light for edge highlight
+  const rimLight = new THREE.DirectionalLight(0xffffff, 2.5);
+  rimLight.position.set(30, 25, 120);
+  rig.add(rimLight);
+
+  // Gentle ambient to avoid crushed blacks
+  const ambient = new THREE.AmbientLight(0x182030, 0.4);
+  rig.add(ambient);
+
+  const environment = createEnvironmentMap(renderer);
+
+  return {
+    object: rig,
+    environment,
+    sunDirection: keyLight.position.clone().normalize(),
+    update: () => {},
+    dispose: () => { environment?.dispose(); },
+  };
+};
@@ -0,0 +1,101 @@
+// Procedural metal materials shared by the rocket and satellite builders.
+
+import * as THREE from 'three';
+import { generateRocketMetalTextures, tintMetalTexture } from './textures';
+
+export interface MetalTint {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// Everything that distinguishes one painted or bare metal surface from another
+export interface MetalFinish {
+  tint: MetalTint; // Multiplied into the shared brushed-metal texture
+  color: number;
+  roughness: number;
+  envMapIntensity: number;
+  normalScale: number;
+}
+
+export const METAL_FINISHES: Record<'titanium' | 'lightTitanium' | 'gunmetal' | 'heatResistant', MetalFinish> = {
+  // Blue-gray titanium for main stage
+  titanium: { tint: { r: 180, g: 190, b: 210, a: 1.0 }, color: 0xd0dae5, roughness: 0.48, envMapIntensity: 1.6, normalScale: 0.45 },
+  // Lighter titanium-gray for stage 2 & fairings
+  lightTitanium: { tint: { r: 200, g: 205, b: 210, a: 1.0 }, color: 0xe5eaef, roughness: 0.44, envMapIntensity: 1.75, normalScale: 0.5 },
+  // Dark gunmetal for boosters
+  gunmetal: { tint: { r: 80, g: 85, b: 95, a: 1.0 }, color: 0x6a7080, roughness: 0.52, envMapIntensity: 1.4, normalScale: 0.4 },
+  // Very dark metal for engines/interstage (heat-resistant)
+  heatResistant: { tint: { r: 50, g: 52, b: 58, a: 1.0 }, color: 0x3a3e45, roughness: 0.58, envMapIntensity: 1.2, normalScale: 0.35 },
+};
+
+export interface MetalMaterials {
+  stage1: THREE.MeshStandardMaterial;
+  stage2: THREE.MeshStandardMaterial;
+  booster: THREE.MeshStandardMaterial;
+  engine: THREE.MeshStandardMaterial;
+  finish: (finish: MetalFinish) => THREE.MeshStandardMaterial; // One material per distinct finish, created on first use
+  all: THREE.Material[];
+  setTextureSize: (width: number, height: number) => void; // Regenerates the brushed-metal maps at a new resolution
+  dispose: () => void;
+}
+
+export const createMetalMaterials = (textureSize: [number, number] = [1024, 2048], seed = 1): MetalMaterials => {
+  let rocketTex = generateRocketMetalTextures(...textureSize, seed);
+  const all: THREE.MeshStandardMaterial[] = [];
+  const byFinish = new Map<string, THREE.MeshStandardMaterial>();
+  const finishes = new Map<THREE.MeshStandardMaterial, MetalFinish>();
+  const disposeTextures = () => {
+    all.forEach(material => material.map?.dispose());
+    rocketTex?.map.dispose();
+    rocketTex?.roughnessMap.dispose();
+    rocketTex?.normalMap.dispose();
+  };
+  const finish = (spec: MetalFinish) => {
+    const key = JSON.stringify(spec);
+    let material = byFinish.get(key);
+    if (!material) {
+      material = new THREE.MeshStandardMaterial({
+        color: spec.color,
+        metalness: 1.0,
+        roughness: spec.roughness,
+        map: tintMetalTexture(rocketTex?.map, spec.tint),
+        roughnessMap: rocketTex?.roughnessMap || null,
+        normalMap: rocketTex?.normalMap || null,
+        envMapIntensity: spec.envMapIntensity,
+        normalScale: new THREE.Vector2(spec.normalScale, spec.normalScale),
+      });
+      byFinish.set(key, material);
+      finishes.set(material, spec);
+      all.push(material);
+    }
+    return material;
+  };
+
+  return {
+    stage1: finish(METAL_FINISHES.titanium),
+    stage2: finish(METAL_FINISHES.lightTitanium),
+    booster: finish(METAL_FINISHES.gunmetal),
+    engine: finish(METAL_FINISHES.heatResistant),
+    finish,
+    all,
+    setTextureSize: (width, height) => {
+      const image = rocketTex?.map.image;
+      if (image && image.width === width && image.height === height) return;
+      disposeTextures();
+      rocketTex = generateRocketMetalTextures(width, height, seed);
+      all.forEach(material => {
+        const spec = finishes.get(material);
+        material.map = (spec && tintMetalTexture(rocketTex?.map, spec.tint)) || null;
+        material.roughnessMap = rocketTex?.roughnessMap || null;
+        material.normalMap = rocketTex?.normalMap || null;
+        material.needsUpdate = true;
+      });
+    },
+    dispose: () => {
+      disposeTextures();
+      all.forEach(material => material.dispose());
+    },
+  };
+};
@@ -0,0 +1,134 @@
+// Procedural Earth, city-light, water-mask and cloud textures, used when the bundled image assets fail to load.
+// Noise is sampled on the unit sphere so the maps have no seam at the date line and no pinching at the poles.
+
+import { createRandom } from '../utils/random';
+
+export interface ProceduralEarthCanvases {
+  map: HTMLCanvasElement;
+  bumpMap: HTMLCanvasElement;
+  clouds: HTMLCanvasElement;
+  nightLights: HTMLCanvasElement;
+  waterMask: HTMLCanvasElement;
+}
+
+type Noise3 = (x: number, y: number, z: number) => number;
+
+// Seeded 3D value noise in [0, 1]
+const createValueNoise = (seed: number): Noise3 => {
+  const random = createRandom(seed);
+  const values = Float32Array.from({ length: 256 }, () => random());
+  const perm = new Uint8Array(512);
+  const order = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  for (let i = 0; i < 512; i++) perm[i] = order[i & 255];
+
+  const lattice = (x: number, y: number, z: number) => values[perm[perm[perm[x & 255] + (y & 255)] + (z & 255)]];
+  const fade = (t: number) => t * t * (3 - 2 * t);
+  const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+
+  return (x, y, z) => {
+    const xi = Math.floor(x), yi = Math.floor(y), zi = Math.floor(z);
+    const u = fade(x - xi), v = fade(y - yi), w = fade(z - zi);
+    return mix(
+      mix(mix(lattice(xi, yi, zi), lattice(xi + 1, yi, zi), u), mix(lattice(xi, yi + 1, zi), lattice(xi + 1, yi + 1, zi), u), v),
+      mix(mix(lattice(xi, yi, zi + 1), lattice(xi + 1, yi, zi + 1), u), mix(lattice(xi, yi + 1, zi + 1), lattice(xi + 1, yi + 1, zi + 1), u), v),
+      w,
+    );
+  };
+};
+
+const fbm = (noise: Noise3, x: number, y: number, z: number, octaves: number) => {
+  let sum = 0, amplitude = 0.5, frequency = 1, norm = 0;
+  for (let i = 0; i < octaves; i++) {
+    sum += noise(x * frequency, y * frequency, z * frequency) * amplitude;
+    norm += amplitude;
+    amplitude *= 0.5;
+    frequency *= 2;
+  }
+  return sum / norm;
+};
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+const SEA_LEVEL = 0.52; // fBm of value noise centres on 0.5, so this leaves roughly a third of the globe as land
+const OCEAN_DEEP = [8, 32, 78];
+const OCEAN_SHALLOW = [28, 86, 150];
+const FOREST = [52, 94, 38];
+const DESERT = [178, 152, 100];
+const MOUNTAIN = [112, 98, 82];
+const ICE = [235, 240, 245];
+const CITY_LIGHT = [255, 196, 120];
+
+const blend = (a: number[], b: number[], t: number) => a.map((c, i) => c + (b[i] - c) * t);
+
+// Equirectangular day map, bump map, cloud layer, city lights and water mask at `width` x `height`
+export const generateProceduralEarth = (width: number, height: number, seed = 1): ProceduralEarthCanvases | null => {
+  const mapCanvas = document.createElement('canvas'); mapCanvas.width = width; mapCanvas.height = height;
+  const bumpCanvas = document.createElement('canvas'); bumpCanvas.width = width; bumpCanvas.height = height;
+  const cloudCanvas = document.createElement('canvas'); cloudCanvas.width = width; cloudCanvas.height = height;
+  const nightCanvas = document.createElement('canvas'); nightCanvas.width = width; nightCanvas.height = height;
+  const waterCanvas = document.createElement('canvas'); waterCanvas.width = width; waterCanvas.height = height;
+  const mCtx = mapCanvas.getContext('2d'); const bCtx = bumpCanvas.getContext('2d'); const cCtx = cloudCanvas.getContext('2d');
+  const nCtx = nightCanvas.getContext('2d'); const wCtx = waterCanvas.getContext('2d');
+  if (!mCtx || !bCtx || !cCtx || !nCtx || !wCtx) return null;
+
+  const terrain = createValueNoise(seed);
+  const moisture = createValueNoise(seed + 1);
+  const weather = createValueNoise(seed + 2);
+  const settlement = createValueNoise(seed + 3);
+  const mImg = mCtx.createImageData(width, height); const md = mImg.data;
+  const bImg = bCtx.createImageData(width, height); const bd = bImg.data;
+  const cImg = cCtx.createImageData(width, height); const cd = cImg.data;
+  const nImg = nCtx.createImageData(width, height); const nd = nImg.data;
+  const wImg = wCtx.createImageData(width, height); const wd = wImg.data;
+
+  for (let y = 0; y < height; y++) {
+    const lat = (0.5 - (y + 0.5) / height) * Math.PI;
+    const cosLat = Math.cos(lat), sinLat = Math.sin(lat);
+    const polar = Math.abs(lat) / (Math.PI / 2);
+    for (let x = 0; x < width; x++) {
+      const lon = ((x + 0.5) / width) * Math.PI * 2;
+      const px = cosLat * Math.cos(lon), py = sinLat, pz = cosLat * Math.sin(lon);
+      const i = (y * width + x) * 4;
+
+      const elevation = fbm(terrain, px * 2 + 8, py * 2 + 8, pz * 2 + 8, 6);
+      let color: number[];
+      if (elevation < SEA_LEVEL) {
+        color = blend(OCEAN_DEEP, OCEAN_SHALLOW, smoothstep(SEA_LEVEL - 0.15, SEA_LEVEL, elevation));
+      } else {
+        // Deserts cluster around the subtropics, forests elsewhere; high ground fades to rock
+        const wet = fbm(moisture, px * 3, py * 3, pz * 3, 4) + Math.abs(Math.abs(lat) - 0.45) * 0.6;
+        color = blend(DESERT, FOREST, smoothstep(0.45, 0.6, wet));
+        color = blend(color, MOUNTAIN, smoothstep(SEA_LEVEL + 0.1, SEA_LEVEL + 0.2, elevation));
+      }
+      color = blend(color, ICE, smoothstep(0.78, 0.86, polar + (elevation - SEA_LEVEL) * 0.2));
+      md[i] = color[0]; md[i + 1] = color[1]; md[i + 2] = color[2]; md[i + 3] = 255;
+
+      const height01 = Math.max(0, (elevation - SEA_LEVEL) / (1 - SEA_LEVEL));
+      bd[i] = bd[i + 1] = bd[i + 2] = Math.round(Math.min(1, height01 * 2.5) * 255); bd[i + 3] = 255;
+
+      const cover = smoothstep(0.5, 0.72, fbm(weather, px * 4, py * 6, pz * 4, 5));
+      cd[i] = cd[i + 1] = cd[i + 2] = Math.round(cover * 255); cd[i + 3] = Math.round(cover * 255);
+
+      // Cities gather on low land away from the poles, in clusters with sparse scatter between them
+      const land = elevation >= SEA_LEVEL;
+      const lowland = 1 - smoothstep(SEA_LEVEL + 0.05, SEA_LEVEL + 0.15, elevation);
+      const lights = land ? smoothstep(0.58, 0.72, fbm(settlement, px * 14, py * 14, pz * 14, 4)) * lowland * (1 - smoothstep(0.6, 0.75, polar)) : 0;
+      nd[i] = CITY_LIGHT[0] * lights; nd[i + 1] = CITY_LIGHT[1] * lights; nd[i + 2] = CITY_LIGHT[2] * lights; nd[i + 3] = 255;
+      wd[i] = wd[i + 1] = wd[i + 2] = land ? 0 : 255; wd[i + 3] = 255;
+    }
+  }
+
+  mCtx.putImageData(mImg, 0, 0);
+  bCtx.putImageData(bImg, 0, 0);
+  cCtx.putImageData(cImg, 0, 0);
+  nCtx.putImageData(nImg, 0, 0);
+  wCtx.putImageData(wImg, 0, 0);
+  return { map: mapCanvas, bumpMap: bumpCanvas, clouds: cloudCanvas, nightLights: nightCanvas, waterMask: waterCanvas };
+};
@@ -0,0 +1,125 @@
+// Rendering quality presets and the automatic mode that moves between them.
+// A preset caps the pixel ratio and sets the shadow map resolution, how much of each particle pool, the
+// starfield and the ground scenery is drawn, the terrain's tessellation and the rocket's texture size. The
+// automatic mode watches frame times and steps one preset down when frames run long, or back up once there is
+// clear headroom; it leaves the texture size alone, since regenerating the maps would stall the very frames
+// it is trying to speed up.
+
+import * as THREE from 'three';
+
+export type QualityPreset = 'low' | 'medium' | 'high' | 'ultra';
+export type QualityMode = QualityPreset | 'auto';
+
+export interface QualitySettings {
+  pixelRatio: number; // Cap on the device pixel ratio
+  shadowMapSize: number;
+  particleFraction: number; // Share of each exhaust pool that is drawn
+  starFraction: number; // Share of the starfield that is drawn
+  terrainSegments: number; // Per side of the ground plane
+  sceneryFraction: number; // Share of the trees, shrubs and rocks that is drawn
+  rocketTextureSize: [number, number]; // Applied by explicit presets only
+}
+
+export interface QualityStats {
+  preset: QualityPreset; // Active preset; in automatic mode, the one it has settled on
+  fps: number; // Average over the last sampling window
+}
+
+// Lowest first; the automatic mode steps along this list
+export const QUALITY_LEVELS: QualityPreset[] = ['low', 'medium', 'high', 'ultra'];
+
+export const QUALITY_PRESETS: Record<QualityPreset, QualitySettings> = {
+  low: { pixelRatio: 0.75, shadowMapSize: 512, particleFraction: 0.15, starFraction: 0.3, terrainSegments: 64, sceneryFraction: 0.3, rocketTextureSize: [256, 512] },
+  medium: { pixelRatio: 1, shadowMapSize: 1024, particleFraction: 0.3, starFraction: 0.6, terrainSegments: 100, sceneryFraction: 0.6, rocketTextureSize: [512, 1024] },
+  high: { pixelRatio: 1.5, shadowMapSize: 2048, particleFraction: 0.6, starFraction: 1, terrainSegments: 150, sceneryFraction: 1, rocketTextureSize: [1024, 2048] },
+  ultra: { pixelRatio: 2, shadowMapSize: 2048, particleFraction: 1, starFraction: 1, terrainSegments: 200, sceneryFraction: 1, rocketTextureSize: [1024, 2048] },
+};
+
+export const QUALITY_LABELS: Record<QualityMode, string> = { auto: 'Auto', low: 'Low', medium: 'Medium', high: 'High', ultra: 'Ultra' };
+
+// Mode from `?quality=`; anything unrecognised is automatic
+export const parseQualityMode = (value: string | null): QualityMode =>
+  value === 'low' || value === 'medium' || value === 'high' || value === 'ultra' ? value : 'auto';
+
+// Resizes the shadow maps of every shadow-casting light under `root`; the maps are reallocated on the next render
+export const setShadowMapSize = (root: THREE.Object3D, size: number) => {
+  root.traverse((child: THREE.Object3D) => {
+    if (!(child instanceof THREE.DirectionalLight || child instanceof THREE.SpotLight || child instanceof THREE.PointLight)) return;
+    if (!child.castShadow || child.shadow.mapSize.x === size) return;
+    child.shadow.mapSize.set(size, size);
+    if (child.shadow.map instanceof THREE.WebGLRenderTarget) child.shadow.map.dispose();
+    child.shadow.map = null;
+  });
+};
+
+export interface AdaptiveQualityOptions {
+  targetFps?: number;
+  initial?: QualityPreset;
+}
+
+export interface AdaptiveQuality {
+  readonly preset: QualityPreset;
+  // Feeds one frame's duration (s). With `adapt` set, returns the new preset when the controller steps
+  sample: (deltaTime: number, adapt: boolean) => QualityPreset | null;
+  fps: () => number;
+  reset: (preset: QualityPreset) => void; // Restarts sampling from `preset`
+}
+
+const WINDOW_SECONDS = 1.5;
+const SETTLE_SECONDS = 2; // Ignored after each step while the new settings warm up
+const STEP_UP_HOLD = 6; // Seconds of headroom needed before stepping up
+const RETRY_DELAY = 30; // Seconds before retrying a preset that had to be stepped down from
+const MAX_FRAME = 0.25; // Longer frames are hitches (tab switches, captures), not load
+
+export const createAdaptiveQuality = ({ targetFps = 55, initial = 'high' }: AdaptiveQualityOptions = {}): AdaptiveQuality => {
+  let level = QUALITY_LEVELS.indexOf(initial);
+  let windowTime = 0;
+  let windowFrames = 0;
+  let averageFps = targetFps;
+  let settle = SETTLE_SECONDS;
+  let headroom = 0;
+  let clock = 0;
+  const failedAt = new Map<number, number>(); // Level -> clock time it was last stepped down from
+
+  const step = (next: number) => {
+    level = next;
+    settle = SETTLE_SECONDS;
+    headroom = 0;
+    return QUALITY_LEVELS[level];
+  };
+
+  return {
+    get preset() { return QUALITY_LEVELS[level]; },
+    sample: (deltaTime, adapt) => {
+      if (!(deltaTime > 0) || deltaTime > MAX_FRAME) return null;
+      clock += deltaTime;
+      if (settle > 0) {
+        settle -= deltaTime;
+        return null;
+      }
+      windowTime += deltaTime;
+      windowFrames++;
+      if (windowTime < WINDOW_SECONDS) return null;
+      averageFps = windowFrames / windowTime;
+      const elapsed = windowTime;
+      windowTime = 0;
+      windowFrames = 0;
+
+      if (!adapt) return null;
+      if (averageFps < targetFps * 0.9 && level > 0) {
+        failedAt.set(level, clock);
+        return step(level - 1);
+      }
+      headroom = averageFps > targetFps * 1.05 ? headroom + elapsed : 0;
+      const retryAfter = (failedAt.get(level + 1) ?? -Infinity) + RETRY_DELAY;
+      if (headroom >= STEP_UP_HOLD && level < QUALITY_LEVELS.length - 1 && clock >= retryAfter) return step(level + 1);
+      return null;
+    },
+    fps: () => averageFps,
+    reset: (preset) => {
+      step(QUALITY_LEVELS.indexOf(preset));
+      windowTime = 0;
+      windowFrames = 0;
+    },
+  };
+};
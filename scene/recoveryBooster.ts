@@ -0,0 +1,104 @@
+// Recovered booster for the landing epilogue: the vehicle's strap-on booster (or its first stage when it has
+// none) with grid fins and four folding landing legs. Recovery-model metres are squeezed into the ground
+// scene so the whole flight, from 50 km up and 13 km out, stays inside the sky dome.
+
+import * as THREE from 'three';
+import type { Vec3Tuple } from '../mission/timeline';
+import type { RecoverySample } from '../mission/recovery';
+import type { SceneBuilder } from './builder';
+import { disposeObject } from './builder';
+import type { MetalMaterials } from './materials';
+import { addEngines } from './rocket';
+import type { VehicleSpec } from './vehicles';
+
+export interface RecoveryBoosterState {
+  visible: boolean;
+  position: Vec3Tuple;
+  pitch: number; // rad of the body axis from vertical, leaning towards downrange
+  legDeploy: number; // 0 = stowed against the body, 1 = locked out for touchdown
+}
+
+export interface RecoveryBooster extends SceneBuilder<RecoveryBoosterState> {
+  object: THREE.Group;
+  engineExitY: number; // Height of the nozzle exits above the landing-leg feet
+}
+
+const SCENE_UNITS_PER_METRE = 0.5; // Near the pad; distances further out are compressed
+const ALTITUDE_LIMIT = 2000;
+const DOWNRANGE_LIMIT = 700;
+
+// Linear near zero, approaching `limit` far away
+const compress = (metres: number, limit: number) =>
+  Math.sign(metres) * limit * (1 - Math.exp(-Math.abs(metres) * SCENE_UNITS_PER_METRE / limit));
+
+// Scene position of a recovery sample, measured from the landing pad along the downrange `direction`
+export const recoveryToScene = (sample: RecoverySample, pad: THREE.Vector3, direction: THREE.Vector3): Vec3Tuple => {
+  const downrange = compress(sample.downrange, DOWNRANGE_LIMIT);
+  return [pad.x + direction.x * downrange, pad.y + compress(sample.altitude, ALTITUDE_LIMIT), pad.z + direction.z * downrange];
+};
+
+export const createRecoveryBooster = (vehicle: VehicleSpec, materials: MetalMaterials, direction: THREE.Vector3): RecoveryBooster => {
+  const core = vehicle.stages[0];
+  const { radius, height, noseHeight, engineCount } = vehicle.boosters ?? { ...core, noseHeight: 0 };
+  const boosterGroup = new THREE.Group();
+  const engineMaterial = materials.finish(vehicle.engineFinish);
+
+  // Built upwards from the landing-leg feet at the origin
+  const bodyBase = radius * 1.3;
+  const body = new THREE.Mesh(
+    new THREE.CylinderBufferGeometry(radius, radius, height, 32),
+    materials.finish(vehicle.boosters?.finish ?? core.finish),
+  );
+  body.position.y = bodyBase + height / 2;
+  boosterGroup.add(body);
+  if (noseHeight > 0) {
+    const nose = new THREE.Mesh(new THREE.ConeBufferGeometry(radius, noseHeight, 32), materials.finish(vehicle.boosters?.noseFinish ?? core.finish));
+    nose.position.y = bodyBase + height + noseHeight / 2;
+    boosterGroup.add(nose);
+  }
+  const engineExitY = addEngines(boosterGroup, Math.max(1, engineCount), radius, bodyBase, engineMaterial);
+
+  // Grid fins near the top steer the unpowered descent
+  for (let i = 0; i < 4; i++) {
+    const angle = (i / 4) * Math.PI * 2 + Math.PI / 4;
+    const fin = new THREE.Mesh(new THREE.BoxBufferGeometry(radius * 0.6, radius * 0.5, 0.08), engineMaterial);
+    fin.position.set(Math.cos(angle) * radius * 1.3, bodyBase + height - radius * 0.6, Math.sin(angle) * radius * 1.3);
+    fin.rotation.y = -angle;
+    boosterGroup.add(fin);
+  }
+
+  // Legs hinge at the base of the body and swing down until their feet reach the origin
+  const hingeY = bodyBase + radius * 0.2;
+  const legLength = Math.max(height * 0.3, hingeY * 1.3);
+  const deployedAngle = Math.PI - Math.acos(hingeY / legLength);
+  const legs = [0, 1, 2, 3].map(i => {
+    const angle = (i / 4) * Math.PI * 2;
+    const hinge = new THREE.Group();
+    hinge.position.set(Math.cos(angle) * radius, hingeY, Math.sin(angle) * radius);
+    hinge.rotation.y = -angle; // Local +X points radially outwards
+    const leg = new THREE.Group();
+    const strut = new THREE.Mesh(new THREE.BoxBufferGeometry(radius * 0.18, legLength, radius * 0.3), engineMaterial);
+    strut.position.set(radius * 0.1, legLength / 2, 0);
+    const foot = new THREE.Mesh(new THREE.CylinderBufferGeometry(radius * 0.3, radius * 0.3, 0.15, 16), engineMaterial);
+    foot.position.y = legLength;
+    leg.add(strut, foot);
+    hinge.add(leg);
+    boosterGroup.add(hinge);
+    return leg;
+  });
+  boosterGroup.traverse((c: THREE.Object3D) => { if (c instanceof THREE.Mesh) c.castShadow = true; });
+
+  const tiltAxis = new THREE.Vector3(direction.z, 0, -direction.x).normalize(); // up x direction: tilts the nose downrange
+  return {
+    object: boosterGroup,
+    engineExitY,
+    update: ({ visible, position, pitch, legDeploy }) => {
+      boosterGroup.visible = visible;
+      if (!visible) return;
+      boosterGroup.position.set(...position);
+      boosterGroup.quaternion.setFromAxisAngle(tiltAxis, pitch);
+      legs.forEach(leg => { leg.rotation.z = -deployedAngle * legDeploy; });
+    },
+    dispose: () => disposeObject(boosterGroup, materials.all),
+  };
+};
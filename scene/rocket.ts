@@ -0,0 +1,250 @@
+// Launch vehicle model built from a VehicleSpec: stacked stages joined by interstages, engine clusters,
+// a split payload fairing and strap-on boosters spaced evenly around the core.
+// Jettisoned parts (boosters, the first stage, fairing halves) fly ballistic arcs relative to the vehicle,
+// tumble and fade out. Their poses are pure functions of separation progress, so scrubbing replays them.
+
+import * as THREE from 'three';
+import type { SceneBuilder } from './builder';
+import { disposeObject } from './builder';
+import type { MetalMaterials } from './materials';
+import type { FairingShape, VehicleSpec } from './vehicles';
+
+export interface RocketState {
+  visible: boolean;
+  altitude: number; // Scene units along the local vertical from the scene origin
+  orientation: THREE.Quaternion; // Local vertical frame the rocket stands and climbs in
+  boosterSeparation: number; // 0..1
+  stageSeparation: number; // 0..1, first stage falling away from the upper stack
+  fairingSeparation: number; // 0..1
+}
+
+export interface Rocket extends SceneBuilder<RocketState> {
+  object: THREE.Group;
+  payloadY: number; // Height of the payload's centre inside the fairing, relative to the rocket origin
+  engineExitY: number; // Height of the first-stage nozzle exits, where the exhaust is emitted
+  upperEngineExitY: number; // Height of the upper-stage nozzle exits, revealed by stage separation
+}
+
+interface DebrisMaterial {
+  material: THREE.MeshStandardMaterial; // The part's own copy
+  source: THREE.MeshStandardMaterial; // The shared material it was copied from
+}
+
+interface Debris {
+  object: THREE.Object3D;
+  rest: THREE.Vector3;
+  materials: DebrisMaterial[];
+}
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Gives a part its own copies of the shared materials so it can fade without affecting the rest of the vehicle
+const createDebris = (object: THREE.Object3D): Debris => {
+  const materials: DebrisMaterial[] = [];
+  object.traverse((child: THREE.Object3D) => {
+    if (!(child instanceof THREE.Mesh) || !(child.material instanceof THREE.MeshStandardMaterial)) return;
+    const source = child.material;
+    child.material = source.clone();
+    materials.push({ material: child.material, source });
+  });
+  return { object, rest: object.position.clone(), materials };
+};
+
+// The shared materials get new maps when the texture size changes; the copies follow them
+const syncMaps = ({ material, source }: DebrisMaterial) => {
+  if (material.map === source.map && material.roughnessMap === source.roughnessMap && material.normalMap === source.normalMap) return;
+  material.map = source.map;
+  material.roughnessMap = source.roughnessMap;
+  material.normalMap = source.normalMap;
+  material.needsUpdate = true;
+};
+
+// Places debris `s` (0..1) into its separation: pushed off at `push`, falling `drop` behind the
+// still-accelerating vehicle along a parabola, spun by `spin` and faded out over the last part of the arc
+const flyDebris = (debris: Debris, s: number, push: THREE.Vector3, drop: number, spin: THREE.Vector3) => {
+  const { object, rest, materials } = debris;
+  object.position.copy(rest).addScaledVector(push, s);
+  object.position.y -= drop * s * s;
+  object.rotation.set(spin.x * s, spin.y * s, spin.z * s);
+  const opacity = 1 - smoothstep(0.6, 1, s);
+  object.visible = opacity > 0;
+  materials.forEach(entry => {
+    syncMaps(entry);
+    const { material } = entry;
+    if (material.transparent !== opacity < 1) {
+      material.transparent = opacity < 1;
+      material.needsUpdate = true;
+    }
+    material.opacity = opacity;
+  });
+};
+
+// Nozzle positions across a stage's base: a single centre engine, one ring, or a ring around a centre engine
+const engineLayout = (count: number, radius: number) => {
+  if (count <= 1) return { positions: [[0, 0]], bellRadius: radius * 0.4 };
+  const ringCount = count > 6 ? count - 1 : count;
+  const ringRadius = radius * (count > 6 ? 0.65 : 0.48);
+  const positions = ringCount < count ? [[0, 0]] : [];
+  for (let i = 0; i < ringCount; i++) {
+    const angle = (i / ringCount) * Math.PI * 2;
+    positions.push([Math.sin(angle) * ringRadius, Math.cos(angle) * ringRadius]);
+  }
+  return { positions, bellRadius: Math.min(radius * 0.32, (Math.PI * ringRadius / ringCount) * 0.9) };
+};
+
+// Adds `count` engine bells whose tops sit at `topY`; returns the height of their exits
+export const addEngines = (parent: THREE.Object3D, count: number, radius: number, topY: number, material: THREE.Material) => {
+  if (count <= 0) return topY;
+  const { positions, bellRadius } = engineLayout(count, radius);
+  const bellHeight = bellRadius * 2.5;
+  positions.forEach(([x, z]) => {
+    const bell = new THREE.Mesh(new THREE.CylinderBufferGeometry(bellRadius * 0.25, bellRadius, bellHeight, 32), material);
+    bell.position.set(x, topY - bellHeight / 2, z);
+    parent.add(bell);
+  });
+  return topY - bellHeight;
+};
+
+// Lathe profile for a fairing, flaring out first when it is wider than the stage below
+const fairingProfile = (shape: FairingShape, baseRadius: number, radius: number, height: number) => {
+  const points: THREE.Vector2[] = [];
+  const flare = Math.abs(radius - baseRadius) > 0.01 ? height * 0.15 : 0;
+  if (flare > 0) points.push(new THREE.Vector2(baseRadius, 0));
+  const length = height - flare;
+  const ogiveRadius = (radius * radius + length * length) / (2 * radius);
+  const noseRadius = (t: number) => {
+    if (shape === 'cone') return radius * (1 - t);
+    if (shape === 'ogive') return Math.sqrt(ogiveRadius * ogiveRadius - (t * length) ** 2) + radius - ogiveRadius;
+    return t < 0.45 ? radius : radius * Math.sqrt(1 - ((t - 0.45) / 0.55) ** 2); // Blunt: cylinder with an elliptical cap
+  };
+  for (let i = 0; i <= 16; i++) {
+    const t = i / 16;
+    points.push(new THREE.Vector2(Math.max(0, noseRadius(t)), flare + t * length));
+  }
+  return points;
+};
+
+export const createRocket = (spec: VehicleSpec, materials: MetalMaterials): Rocket => {
+  const { stages, interstage, fairing, boosters: boosterSpec } = spec;
+  const engineMaterial = materials.finish(spec.engineFinish);
+  const rocketGroup = new THREE.Group();
+  // The first stage (with the interstage above it) separates as one piece; everything above stays with the vehicle
+  const firstStage = new THREE.Group();
+  const upperStack = new THREE.Group();
+  rocketGroup.add(firstStage, upperStack);
+
+  // Stages stacked from the origin upwards, each upper stage's engines tucked inside the interstage below it
+  let stageBase = 0;
+  let upperEngineExitY = 0;
+  stages.forEach((stage, i) => {
+    if (i > 0) {
+      const below = stages[i - 1];
+      const interstageMesh = new THREE.Mesh(
+        new THREE.CylinderBufferGeometry(below.radius, stage.radius, interstage.height, 64),
+        materials.finish(interstage.finish),
+      );
+      interstageMesh.position.y = stageBase + interstage.height / 2;
+      (i === 1 ? firstStage : upperStack).add(interstageMesh);
+      stageBase += interstage.height;
+      const exitY = addEngines(upperStack, stage.engineCount, stage.radius, stageBase, engineMaterial);
+      if (i === 1) upperEngineExitY = exitY;
+    }
+    const stageMesh = new THREE.Mesh(new THREE.CylinderBufferGeometry(stage.radius, stage.radius, stage.height, 64), materials.finish(stage.finish));
+    stageMesh.position.y = stageBase + stage.height / 2;
+    (i === 0 ? firstStage : upperStack).add(stageMesh);
+    stageBase += stage.height;
+  });
+
+  // Fairing halves are hinged at their base and open sideways along X
+  const topRadius = stages[stages.length - 1].radius;
+  const profile = fairingProfile(fairing.shape, topRadius, fairing.radius, fairing.height);
+  const fairingMaterial = materials.finish(fairing.finish);
+  const fairingHalves = [0, Math.PI].map(phiStart => {
+    const half = new THREE.Mesh(new THREE.LatheBufferGeometry(profile, 32, phiStart, Math.PI), fairingMaterial);
+    half.position.y = stageBase;
+    upperStack.add(half);
+    return createDebris(half);
+  });
+
+  const coreRadius = stages[0].radius;
+  const engineHousing = new THREE.Mesh(new THREE.CylinderBufferGeometry(coreRadius * 0.8, coreRadius, 2, 64), engineMaterial);
+  engineHousing.position.y = -1;
+  firstStage.add(engineHousing);
+  const engineExitY = addEngines(firstStage, stages[0].engineCount, coreRadius, -1, engineMaterial);
+
+  // Re-pivot the first stage about its middle so it tumbles end over end
+  const firstStageCentre = stages[0].height / 2;
+  firstStage.children.forEach(child => { child.position.y -= firstStageCentre; });
+  firstStage.position.y = firstStageCentre;
+  const firstStageDebris = stages.length > 1 ? createDebris(firstStage) : null;
+
+  // Boosters stand with their base level with the engine housing's
+  const boosterAngles: number[] = [];
+  const boosters: Debris[] = [];
+  if (boosterSpec) {
+    const { count, radius, height, noseHeight, offset } = boosterSpec;
+    for (let i = 0; i < count; i++) {
+      const angle = boosterSpec.startAngle + (i / count) * Math.PI * 2;
+      const boosterGroup = new THREE.Group();
+      const boosterBody = new THREE.Mesh(new THREE.CylinderBufferGeometry(radius, radius, height, 32), materials.finish(boosterSpec.finish));
+      boosterGroup.add(boosterBody);
+      const boosterNose = new THREE.Mesh(new THREE.ConeBufferGeometry(radius, noseHeight, 32), materials.finish(boosterSpec.noseFinish));
+      boosterNose.position.y = height / 2 + noseHeight / 2;
+      boosterGroup.add(boosterNose);
+      addEngines(boosterGroup, boosterSpec.engineCount, radius, -height / 2, engineMaterial);
+      boosterGroup.position.set(Math.cos(angle) * offset, height / 2 - 1, Math.sin(angle) * offset);
+      rocketGroup.add(boosterGroup);
+      boosters.push(createDebris(boosterGroup));
+      boosterAngles.push(angle);
+    }
+  }
+  rocketGroup.traverse((c: THREE.Object3D) => { if (c instanceof THREE.Mesh) c.castShadow = true; });
+  const debrisMaterials = [...boosters, ...fairingHalves, ...(firstStageDebris ? [firstStageDebris] : [])].flatMap(debris => debris.materials.map(({ material }) => material));
+
+  const push = new THREE.Vector3();
+  const spin = new THREE.Vector3();
+  return {
+    object: rocketGroup,
+    payloadY: stageBase + 1,
+    engineExitY,
+    upperEngineExitY: stages.length > 1 ? upperEngineExitY : engineExitY,
+    update: ({ visible, altitude, orientation, boosterSeparation, stageSeparation, fairingSeparation }) => {
+      rocketGroup.visible = visible;
+      rocketGroup.position.set(0, altitude, 0).applyQuaternion(orientation);
+      rocketGroup.quaternion.copy(orientation);
+
+      // Boosters are kicked outwards, fall behind and tip away from the core
+      boosters.forEach((booster, i) => {
+        const angle = boosterAngles[i];
+        push.set(Math.cos(angle) * 25, 0, Math.sin(angle) * 25);
+        spin.set(-Math.sin(angle) * 0.8, 0, Math.cos(angle) * 0.8);
+        flyDebris(booster, boosterSeparation, push, (boosterSpec?.height ?? 0) * 1.5, spin);
+      });
+
+      // The spent first stage drops straight back and slowly tumbles
+      if (firstStageDebris) {
+        push.set(0, -2, 0);
+        spin.set(1.1, 0, 0.4);
+        flyDebris(firstStageDebris, stageSeparation, push, stages[0].height * 3, spin);
+      }
+
+      // Fairing halves peel open about their base hinge, then release and drift clear of the payload
+      const hinge = Math.min(1, fairingSeparation / 0.3);
+      const release = Math.max(0, (fairingSeparation - 0.3) / 0.7);
+      fairingHalves.forEach((half, i) => {
+        const side = i === 0 ? 1 : -1;
+        push.set(side * fairing.radius * 10, 0, 0);
+        spin.set(0, 0, -side * 1.6);
+        flyDebris(half, release, push, fairing.height * 6, spin);
+        half.object.rotation.z -= side * hinge * 0.7;
+      });
+    },
+    dispose: () => {
+      disposeObject(rocketGroup, [...materials.all, ...debrisMaterials]);
+      debrisMaterials.forEach(material => material.dispose());
+    },
+  };
+};
@@ -0,0 +1,84 @@
+// Satellite payload: gold bus, high-gain dish, antennas, a sensor block and two folding solar panels.
+
+import * as THREE from 'three';
+import type { Vec3Tuple } from '../mission/timeline';
+import type { SceneBuilder } from './builder';
+import { disposeObject } from './builder';
+import type { MetalMaterials } from './materials';
+import { generateSolarPanelTexture } from './textures';
+
+export interface SatelliteSpec {
+  busSize: number;
+  dishRadius: number;
+  panelSize: [number, number]; // Length, width
+}
+
+export interface SatelliteState {
+  visible: boolean;
+  position: Vec3Tuple;
+  heading: Vec3Tuple | null; // Direction of travel on orbit; null keeps the satellite upright in `mount`
+  mount: THREE.Quaternion; // Orientation of the rocket carrying it
+  panelDeploy: number; // 0 = folded against the bus, 1 = fully deployed
+}
+
+export interface Satellite extends SceneBuilder<SatelliteState> {
+  object: THREE.Group;
+}
+
+export const DEFAULT_SATELLITE_SPEC: SatelliteSpec = {
+  busSize: 3,
+  dishRadius: 2.25,
+  panelSize: [6, 3],
+};
+
+const lerp = (start: number, end: number, alpha: number) => start * (1 - alpha) + end * alpha;
+
+export const createSatellite = (spec: SatelliteSpec, materials: MetalMaterials): Satellite => {
+  const { busSize, dishRadius, panelSize } = spec;
+  const satelliteGroup = new THREE.Group();
+
+  const goldMaterial = new THREE.MeshStandardMaterial({ color: 0xffd700, metalness: 1.0, roughness: 0.3 });
+  const satBody = new THREE.Mesh(new THREE.BoxBufferGeometry(busSize, busSize, busSize), goldMaterial);
+  satelliteGroup.add(satBody);
+  const dish = new THREE.Mesh(new THREE.CylinderBufferGeometry(dishRadius, dishRadius * 0.8, 0.3, 64), new THREE.MeshStandardMaterial({ color: 0xffffff }));
+  dish.position.set(0, busSize * 0.6, 0);
+  dish.rotation.x = -Math.PI / 8;
+  satelliteGroup.add(dish);
+  for (let i = 0; i < 4; i++) {
+    const antenna = new THREE.Mesh(new THREE.CylinderBufferGeometry(0.03, 0.03, busSize * 0.75, 8), materials.engine);
+    const angle = i * (Math.PI / 2);
+    antenna.position.set(Math.sin(angle) * busSize / 2, -busSize * 0.6, Math.cos(angle) * busSize / 2);
+    satelliteGroup.add(antenna);
+  }
+  const sensor = new THREE.Mesh(new THREE.BoxBufferGeometry(0.75, 0.75, 1.2), materials.engine);
+  sensor.position.set(busSize * 0.4, 0, busSize * 0.4);
+  satelliteGroup.add(sensor);
+
+  const panelGeo = new THREE.BoxBufferGeometry(panelSize[0], panelSize[1], 0.15);
+  const panelMat = new THREE.MeshStandardMaterial({ map: generateSolarPanelTexture(256, 128), side: THREE.DoubleSide });
+  const panelL = new THREE.Mesh(panelGeo, panelMat); panelL.position.x = -busSize / 2; panelL.rotation.y = Math.PI / 2; satelliteGroup.add(panelL);
+  const panelR = new THREE.Mesh(panelGeo, panelMat); panelR.position.x = busSize / 2; panelR.rotation.y = -Math.PI / 2; satelliteGroup.add(panelR);
+  satelliteGroup.traverse((c: THREE.Object3D) => { if (c instanceof THREE.Mesh) c.castShadow = true; });
+  satelliteGroup.visible = false;
+
+  const heading = new THREE.Vector3();
+
+  return {
+    object: satelliteGroup,
+    update: ({ visible, position, heading: travel, mount, panelDeploy }) => {
+      satelliteGroup.visible = visible;
+      satelliteGroup.position.set(...position);
+      if (travel) {
+        // Face the direction of travel with the dish pointing away from Earth
+        satelliteGroup.up.copy(satelliteGroup.position).normalize();
+        satelliteGroup.lookAt(heading.set(...travel).add(satelliteGroup.position));
+      } else {
+        satelliteGroup.up.set(0, 1, 0);
+        satelliteGroup.quaternion.copy(mount);
+      }
+      panelL.rotation.y = lerp(Math.PI / 2, 0, panelDeploy);
+      panelR.rotation.y = lerp(-Math.PI / 2, 0, panelDeploy);
+    },
+    dispose: () => disposeObject(satelliteGroup, materials.all),
+  };
+};
@@ -0,0 +1,37 @@
+// Background starfield: seeded random points scattered through a cube around the scene.
+
+import * as THREE from 'three';
+import type { SceneBuilder } from './builder';
+import { disposeObject } from './builder';
+import { createRandom } from '../utils/random';
+
+export interface StarfieldOptions {
+  count?: number;
+  extent?: number; // Edge length of the cube the stars fill
+  seed?: number;
+}
+
+export interface StarfieldState {
+  visible: boolean;
+}
+
+export interface Starfield extends SceneBuilder<StarfieldState> {
+  object: THREE.Points;
+  setDensity: (fraction: number) => void; // Draws only part of the field, for lower quality settings
+}
+
+export const createStarfield = ({ count = 10000, extent = 3000, seed = 1 }: StarfieldOptions = {}): Starfield => {
+  const random = createRandom(seed);
+  const starVertices: number[] = [];
+  for (let i = 0; i < count; i++) { starVertices.push((random() - 0.5) * extent, (random() - 0.5) * extent, (random() - 0.5) * extent); }
+  const starGeometry = new THREE.BufferGeometry();
+  starGeometry.setAttribute('position', new THREE.Float32BufferAttribute(starVertices, 3));
+  const stars = new THREE.Points(starGeometry, new THREE.PointsMaterial({ color: 0xffffff, size: 0.9 }));
+
+  return {
+    object: stars,
+    update: ({ visible }) => { stars.visible = visible; },
+    setDensity: (fraction) => { starGeometry.setDrawRange(0, Math.round(count * Math.max(0, Math.min(1, fraction)))); },
+    dispose: () => disposeObject(stars),
+  };
+};
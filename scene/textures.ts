@@ -0,0 +1,159 @@
+// Procedural canvas textures shared by the scene builders: solar cells, particle sprites and rocket metal.
+
+import * as THREE from 'three';
+import { createRandom } from '../utils/random';
+
+// Helper for procedural solar panel texture
+export const generateSolarPanelTexture = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    context.fillStyle = '#050525';
+    context.fillRect(0, 0, width, height);
+    
+    context.strokeStyle = '#4455bb';
+    context.lineWidth = Math.max(1, width / 64);
+
+    const stepX = width / 8;
+    for (let i = 1; i < 8; i++) {
+        context.beginPath();
+        context.moveTo(i * stepX, 0);
+        context.lineTo(i * stepX, height);
+        context.stroke();
+    }
+
+    const stepY = height / 4;
+    for (let i = 1; i < 4; i++) {
+        context.beginPath();
+        context.moveTo(0, i * stepY);
+        context.lineTo(width, i * stepY);
+        context.stroke();
+    }
+    
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    return texture;
+};
+
+// Creates a soft, round texture for particles
+export const createParticleTexture = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 64;
+    canvas.height = 64;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    const gradient = context.createRadialGradient(32, 32, 0, 32, 32, 32);
+    gradient.addColorStop(0, 'rgba(255,255,255,1)');
+    gradient.addColorStop(0.2, 'rgba(255,255,255,0.8)');
+    gradient.addColorStop(1, 'rgba(255,255,255,0)');
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, 64, 64);
+    return new THREE.CanvasTexture(canvas);
+};
+
+// Procedural rocket metal texture suite: diffuse(albedo), roughness, normal approximation.
+// The streaks and noise come from `seed`, so a seed and size always give the same pixels
+export const generateRocketMetalTextures = (w: number, h: number, seed = 1) => {
+    const random = createRandom(seed);
+    const albedoCanvas = document.createElement('canvas'); albedoCanvas.width = w; albedoCanvas.height = h;
+    const roughCanvas = document.createElement('canvas'); roughCanvas.width = w; roughCanvas.height = h;
+    const normalCanvas = document.createElement('canvas'); normalCanvas.width = w; normalCanvas.height = h;
+    const aCtx = albedoCanvas.getContext('2d'); const rCtx = roughCanvas.getContext('2d'); const nCtx = normalCanvas.getContext('2d');
+    if (!aCtx || !rCtx || !nCtx) return null;
+
+    // Base brushed gradient (lighter metallic silver with subtle tint)
+    const grad = aCtx.createLinearGradient(0, 0, 0, h);
+    grad.addColorStop(0, '#c5d0dc');
+    grad.addColorStop(0.5, '#a8b5c5');
+    grad.addColorStop(1, '#b5c0d0');
+    aCtx.fillStyle = grad; aCtx.fillRect(0,0,w,h);
+
+    // Brushed streaks (vertical)
+    for (let i=0;i<w;i++) {
+        if (random() < 0.25) {
+            const light = (random()*40)-20;
+            aCtx.fillStyle = `rgba(${180+light},${190+light},${205+light},0.3)`;
+            const stripeW = 1 + random()*2;
+            aCtx.fillRect(i,0,stripeW,h);
+        }
+    }
+
+    // Horizontal panel seams every ~15% height with subtle darker line + tiny rivets
+    const panelGap = Math.floor(h * 0.15);
+    aCtx.strokeStyle = 'rgba(70,80,90,0.4)';
+    aCtx.lineWidth = 2;
+    for (let y = panelGap; y < h; y += panelGap) {
+        aCtx.beginPath(); aCtx.moveTo(0,y); aCtx.lineTo(w,y); aCtx.stroke();
+        // Rivets along seam
+        for (let x=10; x<w; x+= Math.floor(w/18)) {
+            aCtx.fillStyle = 'rgba(255,255,255,0.25)';
+            aCtx.beginPath(); aCtx.arc(x,y,2,0,Math.PI*2); aCtx.fill();
+            aCtx.fillStyle = 'rgba(0,0,0,0.35)';
+            aCtx.beginPath(); aCtx.arc(x+0.5,y+0.5,1,0,Math.PI*2); aCtx.fill();
+        }
+    }
+
+    // Heat tint (bottom 15%) subtle blueish / straw transition
+    const heatGrad = aCtx.createLinearGradient(0, h*0.85, 0, h);
+    heatGrad.addColorStop(0, 'rgba(255,255,255,0)');
+    heatGrad.addColorStop(0.4, 'rgba(170,190,255,0.15)');
+    heatGrad.addColorStop(1, 'rgba(210,170,90,0.25)');
+    aCtx.fillStyle = heatGrad; aCtx.fillRect(0,h*0.75,w,h*0.25);
+
+    // Roughness map: brighter=rougher. Start uniform mid, then add vertical noise + panels slightly different
+    rCtx.fillStyle = 'rgb(140,140,140)'; rCtx.fillRect(0,0,w,h);
+    const rImg = rCtx.getImageData(0,0,w,h); const rd = rImg.data;
+    for (let y=0;y<h;y++) {
+        for (let x=0;x<w;x++) {
+            const i = (y*w + x)*4; const v = 140 + (Math.sin(x*0.15)+random()*0.6-0.3)*18;
+            rd[i]=rd[i+1]=rd[i+2]=v;
+        }
+    }
+    // Panel seams slightly rougher
+    for (let y = panelGap; y < h; y += panelGap) {
+        for (let x=0;x<w;x++) { const i=(y*w + x)*4; rd[i]=rd[i+1]=rd[i+2]=180; }
+    }
+    rCtx.putImageData(rImg,0,0);
+
+    // Normal approximation: encode vertical brushed perturbation into normal X component
+    nCtx.fillStyle = 'rgb(128,128,255)'; nCtx.fillRect(0,0,w,h); // flat normal
+    const nImg = nCtx.getImageData(0,0,w,h); const nd = nImg.data;
+    for (let x=0;x<w;x++) {
+        const offset = Math.sin(x*0.25)*8 + (random()*4-2);
+        for (let y=0;y<h;y++) {
+            const i=(y*w + x)*4; // perturb x channel
+            const nx = 128 + offset;
+            nd[i] = Math.min(255, Math.max(0,nx));
+            // Keep y (green) near 128, blue 255
+        }
+    }
+    nCtx.putImageData(nImg,0,0);
+
+    const albedoTex = new THREE.CanvasTexture(albedoCanvas); albedoTex.wrapS = albedoTex.wrapT = THREE.RepeatWrapping; albedoTex.anisotropy = 4; albedoTex.needsUpdate = true;
+    const roughTex = new THREE.CanvasTexture(roughCanvas); roughTex.wrapS = roughTex.wrapT = THREE.RepeatWrapping; roughTex.needsUpdate = true;
+    const normalTex = new THREE.CanvasTexture(normalCanvas); normalTex.wrapS = normalTex.wrapT = THREE.RepeatWrapping; normalTex.needsUpdate = true;
+    return { map: albedoTex, roughnessMap: roughTex, normalMap: normalTex };
+};
+
+// Color-tinted metal variants
+export const tintMetalTexture = (baseTex: THREE.Texture | undefined, tint: {r:number,g:number,b:number,a:number}) => {
+    if (!baseTex || !baseTex.image) return baseTex;
+    const canvas = document.createElement('canvas');
+    const w = baseTex.image.width, h = baseTex.image.height;
+    canvas.width = w; canvas.height = h;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return baseTex;
+    ctx.drawImage(baseTex.image, 0, 0);
+    ctx.globalCompositeOperation = 'multiply';
+    ctx.fillStyle = `rgba(${tint.r},${tint.g},${tint.b},${tint.a})`;
+    ctx.fillRect(0, 0, w, h);
+    ctx.globalCompositeOperation = 'source-over';
+    const tinted = new THREE.CanvasTexture(canvas);
+    tinted.wrapS = tinted.wrapT = THREE.RepeatWrapping;
+    tinted.anisotropy = baseTex.anisotropy;
+    return tinted;
+};
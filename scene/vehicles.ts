@@ -0,0 +1,155 @@
+// Launch vehicle definitions.
+// Dimensions are in scene units (roughly metres / 2). Stages are listed bottom first; each part names the
+// metal finish it is painted with, so a livery is just a different set of finishes.
+
+import { METAL_FINISHES } from './materials';
+import type { MetalFinish } from './materials';
+import { DEFAULT_ASCENT_VEHICLE } from '../mission/ascent';
+import type { AscentVehicle, StageSpec } from '../mission/ascent';
+
+export type FairingShape = 'cone' | 'ogive' | 'blunt';
+
+export interface VehicleStage {
+  radius: number;
+  height: number;
+  engineCount: number;
+  finish: MetalFinish;
+}
+
+export interface VehicleBoosters {
+  count: number;
+  radius: number;
+  height: number;
+  noseHeight: number;
+  offset: number; // Distance from the core's axis to each booster's axis
+  startAngle: number; // rad around the core for the first booster; the rest are spaced evenly
+  engineCount: number;
+  finish: MetalFinish;
+  noseFinish: MetalFinish;
+}
+
+export interface VehicleSpec {
+  id: string;
+  name: string;
+  description: string;
+  stages: VehicleStage[];
+  interstage: { height: number; finish: MetalFinish };
+  boosters: VehicleBoosters | null;
+  fairing: { radius: number; height: number; shape: FairingShape; finish: MetalFinish };
+  engineFinish: MetalFinish;
+}
+
+// Painted liveries alongside the bare-metal finishes
+const WHITE_PAINT: MetalFinish = { tint: { r: 245, g: 245, b: 242, a: 1.0 }, color: 0xf4f4f0, roughness: 0.55, envMapIntensity: 1.1, normalScale: 0.15 };
+const FOAM_ORANGE: MetalFinish = { tint: { r: 214, g: 120, b: 52, a: 1.0 }, color: 0xd9803f, roughness: 0.8, envMapIntensity: 0.6, normalScale: 0.6 };
+const CARBON_BLACK: MetalFinish = { tint: { r: 40, g: 40, b: 44, a: 1.0 }, color: 0x2a2a2e, roughness: 0.4, envMapIntensity: 1.3, normalScale: 0.2 };
+
+export const VEHICLE_PRESETS: VehicleSpec[] = [
+  {
+    id: 'medium',
+    name: 'Medium Lift',
+    description: 'Two stages with a pair of strap-on boosters',
+    stages: [
+      { radius: 2.5, height: 20, engineCount: 4, finish: METAL_FINISHES.titanium },
+      { radius: 2.2, height: 8, engineCount: 1, finish: METAL_FINISHES.lightTitanium },
+    ],
+    interstage: { height: 1, finish: METAL_FINISHES.heatResistant },
+    boosters: {
+      count: 2, radius: 1, height: 16, noseHeight: 2.5, offset: 3.5, startAngle: Math.PI, engineCount: 0,
+      finish: METAL_FINISHES.gunmetal, noseFinish: METAL_FINISHES.heatResistant,
+    },
+    fairing: { radius: 2.2, height: 5, shape: 'cone', finish: METAL_FINISHES.lightTitanium },
+    engineFinish: METAL_FINISHES.heatResistant,
+  },
+  {
+    id: 'single-stick',
+    name: 'Single Stick',
+    description: 'Two stages, nine first-stage engines, no boosters',
+    stages: [
+      { radius: 1.85, height: 24, engineCount: 9, finish: WHITE_PAINT },
+      { radius: 1.85, height: 7, engineCount: 1, finish: WHITE_PAINT },
+    ],
+    interstage: { height: 2, finish: CARBON_BLACK },
+    boosters: null,
+    fairing: { radius: 2.6, height: 6.5, shape: 'ogive', finish: WHITE_PAINT },
+    engineFinish: METAL_FINISHES.heatResistant,
+  },
+  {
+    id: 'heavy',
+    name: 'Heavy (4 Boosters)',
+    description: 'Orange core stage ringed by four solid boosters',
+    stages: [
+      { radius: 2.8, height: 26, engineCount: 4, finish: FOAM_ORANGE },
+      { radius: 2.5, height: 7, engineCount: 1, finish: WHITE_PAINT },
+    ],
+    interstage: { height: 1.5, finish: WHITE_PAINT },
+    boosters: {
+      count: 4, radius: 1.1, height: 20, noseHeight: 2.2, offset: 4.1, startAngle: Math.PI / 4, engineCount: 1,
+      finish: WHITE_PAINT, noseFinish: WHITE_PAINT,
+    },
+    fairing: { radius: 2.8, height: 7, shape: 'blunt', finish: WHITE_PAINT },
+    engineFinish: METAL_FINISHES.heatResistant,
+  },
+  {
+    id: 'tri-core',
+    name: 'Tri-Core',
+    description: 'Three identical first-stage cores side by side',
+    stages: [
+      { radius: 1.85, height: 24, engineCount: 9, finish: WHITE_PAINT },
+      { radius: 1.85, height: 7, engineCount: 1, finish: WHITE_PAINT },
+    ],
+    interstage: { height: 2, finish: CARBON_BLACK },
+    boosters: {
+      count: 2, radius: 1.85, height: 24, noseHeight: 3.5, offset: 3.9, startAngle: Math.PI, engineCount: 9,
+      finish: WHITE_PAINT, noseFinish: WHITE_PAINT,
+    },
+    fairing: { radius: 2.6, height: 6.5, shape: 'ogive', finish: WHITE_PAINT },
+    engineFinish: METAL_FINISHES.heatResistant,
+  },
+];
+
+export const DEFAULT_VEHICLE = VEHICLE_PRESETS[0];
+
+// Preset by id, e.g. from `?vehicle=heavy`; unknown ids fall back to the default
+export const findVehicle = (id: string) => VEHICLE_PRESETS.find(vehicle => vehicle.id === id) ?? DEFAULT_VEHICLE;
+
+// Ascent model for a preset. Tanks scale with each part's volume against the Medium Lift the default ascent
+// vehicle is tuned for; engines scale with the mass they lift, keeping the default's thrust-to-weight at
+// liftoff and at each upper-stage ignition. A vehicle without boosters has no booster tanks.
+export const ascentVehicle = (spec: VehicleSpec): AscentVehicle => {
+  const base = DEFAULT_ASCENT_VEHICLE;
+  const reference = DEFAULT_VEHICLE;
+  const volume = (part: { radius: number; height: number }) => part.radius * part.radius * part.height;
+  const widest = (vehicle: VehicleSpec) => Math.max(vehicle.fairing.radius, ...vehicle.stages.map(stage => stage.radius));
+  const baseIndex = (i: number) => Math.min(i, base.stages.length - 1);
+  const throttled = (stage: StageSpec, factor: number): StageSpec =>
+    ({ ...stage, thrustSeaLevel: stage.thrustSeaLevel * factor, thrustVacuum: stage.thrustVacuum * factor });
+  // Engines grow with the tanks first, so each part keeps its burn time
+  const resized = (stage: StageSpec, factor: number, count = stage.count): StageSpec =>
+    throttled({ ...stage, dryMass: stage.dryMass * factor, propellantMass: stage.propellantMass * factor, count }, factor);
+
+  const sized: AscentVehicle = {
+    ...base,
+    boosters: spec.boosters && base.boosters && reference.boosters
+      ? resized(base.boosters, volume(spec.boosters) / volume(reference.boosters), spec.boosters.count)
+      : undefined,
+    stages: spec.stages.map((stage, i) =>
+      resized(base.stages[baseIndex(i)], volume(stage) / volume(reference.stages[Math.min(i, reference.stages.length - 1)]))),
+    referenceArea: base.referenceArea * (widest(spec) / widest(reference)) ** 2,
+  };
+
+  // Mass on the pad when core stage `i` lights (boosters only at liftoff), and the thrust lighting it
+  const loaded = (stage: StageSpec) => (stage.dryMass + stage.propellantMass) * (stage.count ?? 1);
+  const massAt = (vehicle: AscentVehicle, i: number) => vehicle.payloadMass + vehicle.fairingMass +
+    vehicle.stages.slice(i).reduce((sum, stage) => sum + loaded(stage), i === 0 && vehicle.boosters ? loaded(vehicle.boosters) : 0);
+  const liftoffThrust = (vehicle: AscentVehicle) =>
+    vehicle.stages[0].thrustSeaLevel + (vehicle.boosters ? vehicle.boosters.thrustSeaLevel * (vehicle.boosters.count ?? 1) : 0);
+
+  const liftoff = (massAt(sized, 0) / massAt(base, 0)) * (liftoffThrust(base) / liftoffThrust(sized));
+  return {
+    ...sized,
+    boosters: sized.boosters && throttled(sized.boosters, liftoff),
+    stages: sized.stages.map((stage, i) => throttled(stage, i === 0 ? liftoff
+      : (massAt(sized, i) / massAt(base, baseIndex(i))) * (base.stages[baseIndex(i)].thrustVacuum / stage.thrustVacuum))),
+  };
+};
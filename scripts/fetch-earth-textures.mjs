@@ -0,0 +1,60 @@
+// Builds the Earth texture tiers under public/textures/earth from the example imagery in the three-globe npm
+// package (MIT), so the app can ship its own maps instead of loading them from external hosts.
+// Usage: `npm run textures` for the 2k tier, `npm run textures -- 2k 4k` for more. The sources top out at 4k.
+
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Jimp } from 'jimp';
+
+const PACKAGE = 'three-globe@2.45.2';
+const TIER_WIDTH = { '2k': 2048, '4k': 4096 };
+const OUTPUT = join(import.meta.dirname, '..', 'public', 'textures', 'earth');
+
+// Each output from its source in the package, with any per-pixel conversion the shader expects
+const TEXTURES = [
+  { file: 'earth-day.jpg', source: 'example/img/earth-blue-marble.jpg' },
+  { file: 'earth-bump.png', source: 'example/img/earth-topology.png' },
+  { file: 'earth-night.jpg', source: 'example/img/earth-night.jpg' },
+  // The shader reads cloud cover from the red channel; the source keeps it in alpha over white
+  { file: 'earth-clouds.png', source: 'example/clouds/clouds.png', pixel: (r, g, b, a) => Math.round((r * a) / 255) },
+  // White over water, black over land; the source's land is dark grey
+  { file: 'earth-water.png', source: 'example/img/earth-water.png', pixel: r => (r > 127 ? 255 : 0) },
+];
+
+const tiers = process.argv.slice(2).length > 0 ? process.argv.slice(2) : ['2k'];
+const unknown = tiers.filter(tier => !(tier in TIER_WIDTH));
+if (unknown.length > 0) {
+  console.error(`Unknown tier ${unknown.join(', ')}; choose from ${Object.keys(TIER_WIDTH).join(', ')}`);
+  process.exit(1);
+}
+
+const work = mkdtempSync(join(tmpdir(), 'earth-textures-'));
+try {
+  console.log(`Fetching ${PACKAGE}`);
+  const tarball = execFileSync('npm', ['pack', PACKAGE, '--silent', '--pack-destination', work], { encoding: 'utf8', shell: process.platform === 'win32' }).trim();
+  execFileSync('tar', ['-xzf', join(work, tarball), '-C', work]);
+
+  for (const { file, source, pixel } of TEXTURES) {
+    const image = await Jimp.read(join(work, 'package', source));
+    if (pixel) {
+      const { data } = image.bitmap;
+      for (let i = 0; i < data.length; i += 4) {
+        const value = pixel(data[i], data[i + 1], data[i + 2], data[i + 3]);
+        data.set([value, value, value, 255], i);
+      }
+    }
+    for (const tier of tiers) {
+      const width = TIER_WIDTH[tier];
+      const directory = join(OUTPUT, tier);
+      mkdirSync(directory, { recursive: true });
+      const output = join(directory, file);
+      // The shader reads only the red channel of the PNG maps, so they are stored as greyscale
+      await image.clone().resize({ w: width, h: width / 2 }).write(output, { quality: 85, colorType: 0 });
+      console.log(`Wrote ${output}`);
+    }
+  }
+} finally {
+  rmSync(work, { recursive: true, force: true });
+}
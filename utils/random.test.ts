@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SEED, createRandom, parseSeed } from './random';
+
+describe('parseSeed', () => {
+  it('reads whole numbers', () => {
+    expect(parseSeed('42')).toBe(42);
+    expect(parseSeed('-7')).toBe(-7);
+  });
+
+  it('falls back to the default for missing, blank or fractional seeds', () => {
+    [null, '', '  ', '1.5', 'abc'].forEach(value => expect(parseSeed(value)).toBe(DEFAULT_SEED));
+  });
+});
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(1234);
+    const b = createRandom(1234);
+    const c = createRandom(1235);
+    const first = Array.from({ length: 10 }, a);
+    expect(Array.from({ length: 10 }, b)).toEqual(first);
+    expect(Array.from({ length: 10 }, c)).not.toEqual(first);
+  });
+
+  it('stays in [0, 1) and spreads evenly', () => {
+    const random = createRandom(DEFAULT_SEED);
+    const buckets = new Array(10).fill(0);
+    for (let i = 0; i < 10000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+      buckets[Math.floor(value * 10)]++;
+    }
+    buckets.forEach(count => expect(count).toBeGreaterThan(900));
+  });
+});
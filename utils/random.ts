@@ -0,0 +1,24 @@
+// Seeded pseudo-random numbers (mulberry32): same seed, same sequence, on every machine.
+
+export type RandomFn = () => number;
+
+// Seed for the scene when none is given; every procedural generator derives its own from it
+export const DEFAULT_SEED = 1969;
+
+// Seed from `?seed=`; a blank value or anything that isn't a whole number falls back to the default
+export const parseSeed = (value: string | null): number => {
+  if (value === null || value.trim() === '') return DEFAULT_SEED;
+  const seed = Number(value);
+  return Number.isInteger(seed) ? seed : DEFAULT_SEED;
+};
+
+export const createRandom = (seed: number): RandomFn => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};